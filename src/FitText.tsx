@@ -0,0 +1,108 @@
+import { ForwardedRef, Ref, forwardRef, useCallback, useState } from 'react';
+import { FitResult, FitTextProps } from './types';
+import { useFitText } from './useFitText';
+
+const assignRef = <T,>(ref: Ref<T> | ForwardedRef<T> | undefined, node: T | null): void => {
+  if (typeof ref === 'function') {
+    ref(node);
+  } else if (ref) {
+    (ref as { current: T | null }).current = node;
+  }
+};
+
+export const FitText = forwardRef<HTMLElement, FitTextProps>(function FitText({
+  as: TextElement = 'div',
+  containerAs: ContainerElement = 'div',
+  minFontSize,
+  maxFontSize,
+  resolution,
+  fitMode,
+  lineMode,
+  debounceDelay,
+  maxLines,
+  minLines,
+  breakWords,
+  hyphenate,
+  allowedSizes,
+  strategy,
+  preserveAspectRatio,
+  output,
+  cssVariableTarget,
+  applyLineStyles,
+  overflow,
+  enabled,
+  restoreOnDisable,
+  refitOnFontLoad,
+  waitForFonts,
+  hideUntilFitted,
+  scaleNested,
+  cache,
+  measurer,
+  onFit,
+  onOverflow,
+  textClassName,
+  textStyle,
+  textRef: forwardedTextRef,
+  children,
+  ...containerProps
+}, forwardedContainerRef) {
+  const [result, setResult] = useState<FitResult | null>(null);
+
+  const handleFit = useCallback((fitResult: FitResult) => {
+    setResult(fitResult);
+    onFit?.(fitResult);
+  }, [onFit]);
+
+  const handleOverflow = useCallback((fitResult: FitResult) => {
+    setResult(fitResult);
+    onOverflow?.(fitResult);
+  }, [onOverflow]);
+
+  const { containerRef, textRef, fontSize, overflowing, status, isReady } = useFitText({
+    minFontSize,
+    maxFontSize,
+    resolution,
+    fitMode,
+    lineMode,
+    debounceDelay,
+    maxLines,
+    minLines,
+    breakWords,
+    hyphenate,
+    allowedSizes,
+    strategy,
+    preserveAspectRatio,
+    output,
+    cssVariableTarget,
+    applyLineStyles,
+    overflow,
+    enabled,
+    restoreOnDisable,
+    refitOnFontLoad,
+    waitForFonts,
+    hideUntilFitted,
+    scaleNested,
+    cache,
+    measurer,
+    onFit: handleFit,
+    onOverflow: handleOverflow,
+  });
+
+  const setContainerNode = useCallback((node: HTMLElement | null) => {
+    containerRef(node);
+    assignRef(forwardedContainerRef, node);
+  }, [containerRef, forwardedContainerRef]);
+
+  const setTextNode = useCallback((node: HTMLElement | null) => {
+    textRef(node);
+    assignRef(forwardedTextRef, node);
+  }, [textRef, forwardedTextRef]);
+
+  return (
+    <ContainerElement ref={setContainerNode} {...containerProps}>
+      <TextElement ref={setTextNode} className={textClassName} style={textStyle}>
+        {typeof children === 'function' ? children({ fontSize, overflowing, status, isReady, result }) : children}
+      </TextElement>
+    </ContainerElement>
+  );
+});
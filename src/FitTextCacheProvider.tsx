@@ -0,0 +1,17 @@
+import { ReactNode, createContext, useContext } from 'react';
+import { FitTextCache } from './types';
+
+const FitTextCacheContext = createContext<FitTextCache | undefined>(undefined);
+
+export interface FitTextCacheProviderProps {
+  cache: FitTextCache;
+  children?: ReactNode;
+}
+
+/** Supplies the cache used by every hook and component below it that doesn't pass its own. */
+export const FitTextCacheProvider = ({ cache, children }: FitTextCacheProviderProps) => (
+  <FitTextCacheContext.Provider value={cache}>{children}</FitTextCacheContext.Provider>
+);
+
+/** The cache from the nearest FitTextCacheProvider, if any. */
+export const useFitTextCache = (): FitTextCache | undefined => useContext(FitTextCacheContext);
@@ -0,0 +1,110 @@
+import { FitMode, FitResult, FitTextController, FitTextElement, FitTextState, LineMode, RecalculateOptions, UseFitTextOptions } from './types';
+import { createFitText } from './createFitText';
+
+const FIT_MODES: FitMode[] = ['width', 'height', 'both'];
+const LINE_MODES: LineMode[] = ['single', 'multi'];
+
+const parseNumber = (value: string | null): number | undefined => {
+  const parsed = value === null ? NaN : parseFloat(value);
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+const parseKeyword = <T extends string>(value: string | null, keywords: T[]): T | undefined =>
+  keywords.find(keyword => keyword === value);
+
+// The full option set from the attributes over the options property. The controller's options
+// are replaced with it, so a removed attribute or property key goes back to its default.
+const getElementOptions = (element: HTMLElement, options: UseFitTextOptions): UseFitTextOptions => {
+  const dispatch = (type: 'fit' | 'overflow', result: FitResult) => {
+    element.dispatchEvent(new CustomEvent<FitResult>(type, { detail: result, bubbles: true, composed: true }));
+  };
+
+  return {
+    ...options,
+    minFontSize: parseNumber(element.getAttribute('min-font-size')) ?? options.minFontSize,
+    maxFontSize: parseNumber(element.getAttribute('max-font-size')) ?? options.maxFontSize,
+    fitMode: parseKeyword(element.getAttribute('fit-mode'), FIT_MODES) ?? options.fitMode,
+    lineMode: parseKeyword(element.getAttribute('line-mode'), LINE_MODES) ?? options.lineMode,
+    onFit: (result) => {
+      dispatch('fit', result);
+      options.onFit?.(result);
+    },
+    onOverflow: (result) => {
+      dispatch('overflow', result);
+      options.onOverflow?.(result);
+    },
+  };
+};
+
+/**
+ * Registers the `<fit-text>` custom element and returns its class; calling it again returns
+ * the element already registered under tagName. The element is its own container: give it a
+ * definite size and the text inside is fitted to it, through the same lifecycle as
+ * createFitText. Attributes `min-font-size`, `max-font-size`, `fit-mode` and `line-mode` map
+ * to the options of the same name, and every fit dispatches a `fit` or `overflow` event with
+ * the FitResult as its detail.
+ */
+export const defineFitTextElement = (tagName: string = 'fit-text'): { new(): FitTextElement } => {
+  const registered = customElements.get(tagName);
+  if (registered) {
+    return registered as unknown as { new(): FitTextElement };
+  }
+
+  class FitTextCustomElement extends HTMLElement implements FitTextElement {
+    static observedAttributes = ['min-font-size', 'max-font-size', 'fit-mode', 'line-mode'];
+
+    private controller: FitTextController | null = null;
+    private elementOptions: UseFitTextOptions = {};
+
+    constructor() {
+      super();
+      this.attachShadow({ mode: 'open' }).innerHTML =
+        '<style>:host { display: block; overflow: hidden; }</style><slot></slot>';
+    }
+
+    get options(): UseFitTextOptions {
+      return this.elementOptions;
+    }
+
+    set options(options: UseFitTextOptions) {
+      this.elementOptions = options;
+      this.controller?.replaceOptions(getElementOptions(this, options));
+    }
+
+    get state(): FitTextState {
+      return this.controller?.getState() ?? {
+        fontSize: getElementOptions(this, this.elementOptions).maxFontSize ?? 100,
+        overflowing: false,
+        status: 'idle',
+        isReady: false,
+        result: null,
+      };
+    }
+
+    update(options?: RecalculateOptions) {
+      this.controller?.update(options);
+    }
+
+    connectedCallback() {
+      // Deferred to a microtask: the measurer lays out a clone of this element, which is
+      // connected for the duration of the measurement and must not start fitting itself.
+      queueMicrotask(() => {
+        if (this.isConnected && !this.controller) {
+          this.controller = createFitText(this, this, getElementOptions(this, this.elementOptions));
+        }
+      });
+    }
+
+    disconnectedCallback() {
+      this.controller?.destroy();
+      this.controller = null;
+    }
+
+    attributeChangedCallback() {
+      this.controller?.replaceOptions(getElementOptions(this, this.elementOptions));
+    }
+  }
+
+  customElements.define(tagName, FitTextCustomElement);
+  return FitTextCustomElement;
+};
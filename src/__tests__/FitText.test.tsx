@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { render } from '@testing-library/react';
+import { act, createRef } from 'react';
+import { FitText } from '../FitText';
+import * as utils from '../utils';
+
+vi.mock('../utils', () => ({
+  applyLineModeStyles: vi.fn(),
+  areFontsLoaded: vi.fn().mockReturnValue(true),
+  elementUsesFontFamily: vi.fn().mockReturnValue(true),
+  loadFonts: vi.fn().mockResolvedValue(undefined),
+  subscribeToFontLoads: vi.fn().mockReturnValue(() => {}),
+  calculateFitResult: vi.fn(),
+  calculateTransformFitResult: vi.fn(),
+  getAvailableContentSpace: vi.fn().mockReturnValue({ width: 200, height: 100 }),
+}));
+
+// Fits queued by the commit are flushed in a microtask, before paint.
+const beforePaint = () => act(async () => {});
+
+const fitResult = {
+  fontSize: 36,
+  contentWidth: 180,
+  contentHeight: 40,
+  availableWidth: 200,
+  availableHeight: 100,
+  clampedToMin: false,
+  clampedToMax: false,
+  overflowing: false,
+  lines: 1,
+};
+
+describe('FitText', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(utils.calculateFitResult).mockReturnValue(fitResult);
+  });
+
+  it('should render the container and text elements', async () => {
+    const { container } = render(
+      <FitText as="h1" containerAs="section" className="box" style={{ width: 200 }} textClassName="title">
+        Headline
+      </FitText>
+    );
+    await beforePaint();
+
+    const section = container.firstElementChild as HTMLElement;
+    expect(section.tagName).toBe('SECTION');
+    expect(section.className).toBe('box');
+    expect(section.style.width).toBe('200px');
+
+    const heading = section.firstElementChild as HTMLElement;
+    expect(heading.tagName).toBe('H1');
+    expect(heading.className).toBe('title');
+    expect(heading.textContent).toBe('Headline');
+    expect(heading.style.fontSize).toBe('36px');
+  });
+
+  it('should forward refs to both elements', () => {
+    const containerRef = createRef<HTMLElement>();
+    const textRef = createRef<HTMLElement>();
+
+    render(<FitText ref={containerRef} textRef={textRef} as="span">Label</FitText>);
+
+    expect(containerRef.current?.tagName).toBe('DIV');
+    expect(textRef.current?.tagName).toBe('SPAN');
+  });
+
+  it('should pass the fit result to onFit and the render prop', async () => {
+    const onFit = vi.fn();
+
+    const { getByText } = render(
+      <FitText onFit={onFit}>
+        {({ fontSize, result }) => `Size ${fontSize} of ${result?.availableWidth ?? '?'}`}
+      </FitText>
+    );
+    await beforePaint();
+
+    expect(onFit).toHaveBeenCalledWith(fitResult);
+    expect(getByText('Size 36 of 200')).toBeTruthy();
+  });
+
+  it('should report overflow through onOverflow', async () => {
+    vi.mocked(utils.calculateFitResult).mockReturnValue({ ...fitResult, fontSize: 1, clampedToMin: true, overflowing: true });
+    const onOverflow = vi.fn();
+
+    render(<FitText onOverflow={onOverflow} minFontSize={1}>A very long label</FitText>);
+    await beforePaint();
+
+    expect(onOverflow).toHaveBeenCalledWith(expect.objectContaining({ overflowing: true }));
+  });
+});
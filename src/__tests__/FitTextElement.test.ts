@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { defineFitTextElement } from '../FitTextElement';
+import { FitTextElement } from '../types';
+import * as utils from '../utils';
+import { fitResult } from './helpers/mockUtils';
+
+vi.mock('../utils', async () => (await import('./helpers/mockUtils')).mockUtils());
+
+const connect = async (element: HTMLElement, parent: Node = document.body) => {
+  parent.appendChild(element);
+  await Promise.resolve();
+};
+
+describe('defineFitTextElement', () => {
+  let element: FitTextElement;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(utils.calculateFitResult).mockReturnValue(fitResult(42));
+    defineFitTextElement();
+
+    element = document.createElement('fit-text') as FitTextElement;
+    element.textContent = 'Welcome aboard';
+  });
+
+  afterEach(() => {
+    element.remove();
+  });
+
+  it('should return the registered element when called again', () => {
+    expect(defineFitTextElement()).toBe(customElements.get('fit-text'));
+  });
+
+  it('should fit its slotted text to its own box once connected', async () => {
+    await connect(element);
+
+    expect(utils.getAvailableContentSpace).toHaveBeenCalledWith(element);
+    expect(element.style.fontSize).toBe('42px');
+    expect(element.state.status).toBe('fitted');
+    expect(element.shadowRoot?.querySelector('slot')).not.toBeNull();
+  });
+
+  it('should map attributes to options and refit when they change', async () => {
+    element.setAttribute('min-font-size', '12');
+    element.setAttribute('max-font-size', '64');
+    element.setAttribute('fit-mode', 'width');
+    element.setAttribute('line-mode', 'single');
+    await connect(element);
+
+    expect(vi.mocked(utils.calculateFitResult).mock.calls[0].slice(3, 8)).toEqual([12, 64, 0.5, 'width', 'single']);
+
+    element.setAttribute('max-font-size', '48');
+    await Promise.resolve();
+
+    expect(utils.calculateFitResult).toHaveBeenCalledTimes(2);
+    expect(vi.mocked(utils.calculateFitResult).mock.calls[1][4]).toBe(48);
+  });
+
+  it('should dispatch fit and overflow events with the result', async () => {
+    const onFit = vi.fn();
+    const onOverflow = vi.fn();
+    document.body.addEventListener('fit', onFit);
+    document.body.addEventListener('overflow', onOverflow);
+
+    await connect(element);
+    expect((onFit.mock.calls[0][0] as CustomEvent).detail).toEqual(fitResult(42));
+
+    vi.mocked(utils.calculateFitResult).mockReturnValue(fitResult(1, true));
+    element.update();
+    expect((onOverflow.mock.calls[0][0] as CustomEvent).detail.overflowing).toBe(true);
+
+    document.body.removeEventListener('fit', onFit);
+    document.body.removeEventListener('overflow', onOverflow);
+  });
+
+  it('should merge the options property under the attributes', async () => {
+    element.setAttribute('max-font-size', '64');
+    element.options = { maxFontSize: 80, output: 'cssVariable' };
+    await connect(element);
+
+    expect(vi.mocked(utils.calculateFitResult).mock.calls[0][4]).toBe(64);
+    expect(element.style.getPropertyValue('--fit-font-size')).toBe('42px');
+  });
+
+  it('should drop options cleared from the options property', async () => {
+    element.options = { output: 'cssVariable' };
+    await connect(element);
+    expect(element.style.fontSize).toBe('');
+
+    element.options = {};
+    await Promise.resolve();
+
+    expect(element.style.getPropertyValue('--fit-font-size')).toBe('');
+    expect(element.style.fontSize).toBe('42px');
+  });
+
+  it('should work inside a shadow root', async () => {
+    const host = document.createElement('div');
+    document.body.appendChild(host);
+    const onFit = vi.fn();
+    host.addEventListener('fit', onFit);
+
+    await connect(element, host.attachShadow({ mode: 'open' }));
+
+    expect(element.style.fontSize).toBe('42px');
+    expect(onFit).toHaveBeenCalled();
+
+    host.remove();
+  });
+
+  it('should restore its inline styles when disconnected', async () => {
+    await connect(element);
+    element.remove();
+
+    expect(element.style.fontSize).toBe('');
+    expect(element.state.status).toBe('idle');
+  });
+});
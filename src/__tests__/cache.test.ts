@@ -0,0 +1,234 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { clearFitTextCache, createLruCache, createPersistentCache, hashText, noopCache } from '../cache';
+import { calculateFitResult } from '../utils';
+import { FitResult, FitTextCache } from '../types';
+
+const result = (fontSize: number): FitResult => ({
+  fontSize,
+  contentWidth: 100,
+  contentHeight: 20,
+  availableWidth: 200,
+  availableHeight: 100,
+  clampedToMin: false,
+  clampedToMax: false,
+  overflowing: false,
+  lines: 1,
+});
+
+describe('cache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('createLruCache', () => {
+    it('should evict the least recently used entry past maxEntries', () => {
+      const cache = createLruCache({ maxEntries: 2 });
+
+      cache.set('a', result(10));
+      cache.set('b', result(20));
+      cache.get('a');
+      cache.set('c', result(30));
+
+      expect(cache.get('a')?.fontSize).toBe(10);
+      expect(cache.get('b')).toBeUndefined();
+      expect(cache.get('c')?.fontSize).toBe(30);
+    });
+
+    it('should treat entries older than the ttl as misses', () => {
+      vi.useFakeTimers();
+      const cache = createLruCache({ ttl: 1000 });
+
+      cache.set('a', result(10));
+      vi.advanceTimersByTime(999);
+      expect(cache.get('a')?.fontSize).toBe(10);
+
+      vi.advanceTimersByTime(1);
+      expect(cache.get('a')).toBeUndefined();
+    });
+
+    it('should delete and clear entries', () => {
+      const cache = createLruCache();
+
+      cache.set('a', result(10));
+      cache.set('b', result(20));
+      cache.delete('a');
+      expect(cache.get('a')).toBeUndefined();
+
+      cache.clear();
+      expect(cache.get('b')).toBeUndefined();
+    });
+  });
+
+  describe('createPersistentCache', () => {
+    const createStorage = (initial: Record<string, string> = {}) => {
+      const data = { ...initial };
+      return {
+        data,
+        getItem: vi.fn((key: string) => data[key] ?? null),
+        setItem: vi.fn((key: string, value: string) => {
+          data[key] = value;
+        }),
+      };
+    };
+
+    it('should write entries back to storage after the write delay', async () => {
+      vi.useFakeTimers();
+      const storage = createStorage();
+      const cache = createPersistentCache({ storage, writeDelay: 500 });
+
+      cache.set('a', result(10));
+      cache.set('b', result(20));
+      expect(storage.setItem).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(500);
+
+      expect(storage.setItem).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(storage.data['react-use-fittext']).entries).toHaveLength(2);
+    });
+
+    it('should hydrate synchronously from the entries of a previous load', async () => {
+      const storage = createStorage();
+      const previous = createPersistentCache({ storage, storageKey: 'labels' });
+      previous.set('a', result(10));
+      await previous.flush();
+
+      const cache = createPersistentCache({ storage, storageKey: 'labels' });
+
+      expect(cache.get('a')?.fontSize).toBe(10);
+    });
+
+    it('should discard entries persisted under another version', async () => {
+      const storage = createStorage();
+      const previous = createPersistentCache({ storage, version: 1 });
+      previous.set('a', result(10));
+      await previous.flush();
+
+      expect(createPersistentCache({ storage, version: 2 }).get('a')).toBeUndefined();
+    });
+
+    it('should hydrate from asynchronous storage once ready', async () => {
+      const storage = createStorage();
+      const previous = createPersistentCache({ storage });
+      previous.set('a', result(10));
+      await previous.flush();
+
+      const cache = createPersistentCache({
+        storage: { getItem: async (key) => storage.data[key], setItem: async () => {} },
+      });
+      cache.set('b', result(20));
+      await cache.ready;
+
+      expect(cache.get('a')?.fontSize).toBe(10);
+      expect(cache.get('b')?.fontSize).toBe(20);
+    });
+
+    it('should flush pending writes of every cache on pagehide through one listener', async () => {
+      const addEventListener = vi.spyOn(window, 'addEventListener');
+      const first = createStorage();
+      const second = createStorage();
+      const idle = createStorage();
+      createPersistentCache({ storage: first }).set('a', result(10));
+      createPersistentCache({ storage: second }).set('b', result(20));
+      createPersistentCache({ storage: idle });
+
+      window.dispatchEvent(new Event('pagehide'));
+      await Promise.resolve();
+
+      expect(addEventListener.mock.calls.filter(([type]) => type === 'pagehide').length).toBeLessThanOrEqual(1);
+      expect(first.setItem).toHaveBeenCalledTimes(1);
+      expect(second.setItem).toHaveBeenCalledTimes(1);
+      expect(idle.setItem).not.toHaveBeenCalled();
+      addEventListener.mockRestore();
+    });
+
+    it('should ignore corrupt data', () => {
+      const storage = createStorage({ 'react-use-fittext': '{not json' });
+
+      expect(createPersistentCache({ storage }).get('a')).toBeUndefined();
+    });
+  });
+
+  describe('hashText', () => {
+    it('should produce short, stable keys for long text', () => {
+      const paragraph = 'Lorem ipsum dolor sit amet. '.repeat(500);
+
+      expect(hashText(paragraph)).toBe(hashText(paragraph));
+      expect(hashText(paragraph).length).toBeLessThan(16);
+      expect(hashText(paragraph)).not.toBe(hashText(`${paragraph}!`));
+    });
+  });
+
+  describe('calculateFitResult caching', () => {
+    let element: HTMLElement;
+
+    beforeEach(() => {
+      element = document.createElement('div');
+      element.textContent = 'A long paragraph of text '.repeat(100);
+      const clone = document.createElement('div');
+      Object.defineProperty(clone, 'scrollWidth', {
+        get: () => (parseFloat(clone.style.fontSize) || 16) * 2,
+        configurable: true,
+      });
+      Object.defineProperty(clone, 'scrollHeight', {
+        get: () => parseFloat(clone.style.fontSize) || 16,
+        configurable: true,
+      });
+      vi.spyOn(element, 'cloneNode').mockReturnValue(clone);
+    });
+
+    it('should store results in the given cache under a hashed key', () => {
+      const store = new Map<string, FitResult>();
+      const cache: FitTextCache = {
+        get: key => store.get(key),
+        set: (key, value) => store.set(key, value),
+        delete: key => store.delete(key),
+        clear: () => store.clear(),
+      };
+
+      const first = calculateFitResult(element, 300, 100, 10, 100, 0.5, 'both', 'multi', false, { cache });
+
+      expect(store.size).toBe(1);
+      const [key] = store.keys();
+      expect(key).not.toContain('A long paragraph');
+      expect(calculateFitResult(element, 300, 100, 10, 100, 0.5, 'both', 'multi', false, { cache })).toBe(first);
+    });
+
+    it('should measure every time with the no-op cache', () => {
+      const first = calculateFitResult(element, 300, 100, 10, 100, 0.5, 'both', 'multi', false, { cache: noopCache });
+      const second = calculateFitResult(element, 300, 100, 10, 100, 0.5, 'both', 'multi', false, { cache: noopCache });
+
+      expect(second).not.toBe(first);
+      expect(second).toEqual(first);
+    });
+
+    it('should miss once a web font used by the text has loaded', () => {
+      const faces: Array<{ family: string; weight: string; style: string; stretch: string; status: string }> = [];
+      Object.defineProperty(document, 'fonts', {
+        value: { forEach: (callback: (face: unknown) => void) => faces.forEach(callback) },
+        configurable: true,
+      });
+      element.style.fontFamily = 'Inter, sans-serif';
+      document.body.appendChild(element);
+
+      try {
+        const fallback = calculateFitResult(element, 310, 100, 10, 100, 0.5, 'both');
+        faces.push({ family: 'Inter', weight: '400', style: 'normal', stretch: 'normal', status: 'loaded' });
+
+        expect(calculateFitResult(element, 310, 100, 10, 100, 0.5, 'both')).not.toBe(fallback);
+      } finally {
+        delete (document as unknown as { fonts?: unknown }).fonts;
+        element.remove();
+      }
+    });
+
+    it('should empty the default cache with clearFitTextCache', () => {
+      const first = calculateFitResult(element, 320, 100, 10, 100, 0.5, 'both');
+      expect(calculateFitResult(element, 320, 100, 10, 100, 0.5, 'both')).toBe(first);
+
+      clearFitTextCache();
+
+      expect(calculateFitResult(element, 320, 100, 10, 100, 0.5, 'both')).not.toBe(first);
+    });
+  });
+});
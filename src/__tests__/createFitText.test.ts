@@ -0,0 +1,372 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFitText } from '../createFitText';
+import * as utils from '../utils';
+import { fitResult } from './helpers/mockUtils';
+
+vi.mock('../utils', async () => (await import('./helpers/mockUtils')).mockUtils());
+
+// Fits queued on creation and by option changes are flushed in a microtask, before paint.
+const beforePaint = () => Promise.resolve();
+
+describe('createFitText', () => {
+  let container: HTMLDivElement;
+  let text: HTMLDivElement;
+  let resizeCallback: ResizeObserverCallback = () => {};
+  const mockDisconnect = vi.fn();
+  const originalRO = global.ResizeObserver;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(utils.calculateFitResult).mockReturnValue(fitResult(42));
+
+    container = document.createElement('div');
+    text = document.createElement('div');
+    text.textContent = 'Label';
+
+    global.ResizeObserver = vi.fn().mockImplementation(function(callback: ResizeObserverCallback) {
+      resizeCallback = callback;
+      return { observe: vi.fn(), disconnect: mockDisconnect, unobserve: vi.fn() };
+    });
+  });
+
+  afterEach(() => {
+    global.ResizeObserver = originalRO;
+    vi.useRealTimers();
+  });
+
+  it('should fit the text before the next paint', async () => {
+    const fit = createFitText(container, text);
+    await beforePaint();
+
+    expect(text.style.fontSize).toBe('42px');
+    expect(fit.getState()).toEqual({
+      fontSize: 42,
+      overflowing: false,
+      status: 'fitted',
+      isReady: true,
+      result: fitResult(42),
+    });
+
+    fit.destroy();
+  });
+
+  it('should measure every instance created in the same task before writing to any', async () => {
+    const otherText = document.createElement('div');
+    const sizesWhenMeasured: string[] = [];
+    vi.mocked(utils.calculateFitResult).mockImplementation(() => {
+      sizesWhenMeasured.push(text.style.fontSize);
+      return fitResult(42);
+    });
+
+    const fit = createFitText(container, text);
+    const other = createFitText(document.createElement('div'), otherText);
+    expect(utils.calculateFitResult).not.toHaveBeenCalled();
+    await beforePaint();
+
+    expect(sizesWhenMeasured).toEqual(['', '']);
+    expect(text.style.fontSize).toBe('42px');
+    expect(otherText.style.fontSize).toBe('42px');
+
+    fit.destroy();
+    other.destroy();
+  });
+
+  it('should refit after a debounced resize and notify subscribers', async () => {
+    vi.useFakeTimers();
+    const fit = createFitText(container, text, { debounceDelay: 50 });
+    await beforePaint();
+    const listener = vi.fn();
+    fit.subscribe(listener);
+
+    vi.mocked(utils.calculateFitResult).mockReturnValue(fitResult(30));
+    resizeCallback([
+      { target: container, contentRect: { width: 150, height: 100 } } as unknown as ResizeObserverEntry
+    ], {} as ResizeObserver);
+
+    expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'measuring' }));
+
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(text.style.fontSize).toBe('30px');
+    expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ fontSize: 30, status: 'fitted' }));
+
+    fit.destroy();
+  });
+
+  it('should not write to an instance destroyed earlier in the same flush', async () => {
+    vi.useFakeTimers();
+    const otherContainer = document.createElement('div');
+    const otherText = document.createElement('div');
+    const fit = createFitText(container, text, { debounceDelay: 50 });
+    const other = createFitText(otherContainer, otherText, { debounceDelay: 50 });
+    await beforePaint();
+    fit.setOptions({ onFit: () => other.destroy() });
+
+    vi.mocked(utils.calculateFitResult).mockReturnValue(fitResult(30));
+    resizeCallback([
+      { target: container, contentRect: { width: 150, height: 100 } },
+      { target: otherContainer, contentRect: { width: 150, height: 100 } },
+    ] as unknown as ResizeObserverEntry[], {} as ResizeObserver);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(utils.calculateFitResult).toHaveBeenCalledTimes(4);
+    expect(text.style.fontSize).toBe('30px');
+    expect(otherText.style.fontSize).toBe('');
+
+    fit.destroy();
+  });
+
+  it('should lay wrapped text out at the wrap size before scaling it', async () => {
+    vi.mocked(utils.calculateTransformFitResult).mockReturnValue(
+      { ...fitResult(30), scale: { x: 1.5, y: 1.5 }, wrapSize: 120 }
+    );
+    const fit = createFitText(container, text, { strategy: 'transform' });
+    await beforePaint();
+
+    expect(text.style.getPropertyValue('inline-size')).toBe('120px');
+    expect(text.style.transform).toBe('scale(1.5)');
+
+    fit.destroy();
+    expect(text.style.getPropertyValue('inline-size')).toBe('');
+  });
+
+  it('should stop notifying after unsubscribe', async () => {
+    const fit = createFitText(container, text);
+    await beforePaint();
+    const listener = vi.fn();
+    const unsubscribe = fit.subscribe(listener);
+
+    unsubscribe();
+    vi.mocked(utils.calculateFitResult).mockReturnValue(fitResult(30));
+    fit.update();
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(fit.getState().fontSize).toBe(30);
+
+    fit.destroy();
+  });
+
+  it('should refit with merged options only when they can change the result', async () => {
+    const fit = createFitText(container, text, { maxFontSize: 80, onFit: vi.fn() });
+    await beforePaint();
+    vi.mocked(utils.calculateFitResult).mockClear();
+
+    fit.setOptions({ onFit: vi.fn(), allowedSizes: [12, 24] });
+    fit.setOptions({ allowedSizes: [12, 24] });
+    await beforePaint();
+    expect(utils.calculateFitResult).toHaveBeenCalledTimes(1);
+
+    fit.setOptions({ minFontSize: 10 });
+    await beforePaint();
+    expect(utils.calculateFitResult).toHaveBeenCalledTimes(2);
+    expect(vi.mocked(utils.calculateFitResult).mock.calls[1].slice(3, 5)).toEqual([10, 80]);
+
+    fit.destroy();
+  });
+
+  it('should drop options left out when replacing them', async () => {
+    const fit = createFitText(container, text, { output: 'none', maxLines: 2 });
+    await beforePaint();
+    expect(text.style.fontSize).toBe('');
+
+    fit.replaceOptions({});
+    await beforePaint();
+
+    expect(text.style.fontSize).toBe('42px');
+    expect(vi.mocked(utils.calculateFitResult).mock.calls[1][9]).toEqual(expect.objectContaining({ maxLines: undefined }));
+
+    fit.destroy();
+  });
+
+  it('should move the fitted size when the output changes', async () => {
+    const fit = createFitText(container, text);
+    await beforePaint();
+
+    fit.setOptions({ output: 'cssVariable' });
+    await beforePaint();
+
+    expect(text.style.fontSize).toBe('');
+    expect(container.style.getPropertyValue('--fit-font-size')).toBe('42px');
+
+    fit.destroy();
+  });
+
+  it('should disconnect the observers and restore inline styles on destroy', async () => {
+    text.style.fontSize = '18px';
+    const fit = createFitText(container, text);
+    await beforePaint();
+    expect(text.style.fontSize).toBe('42px');
+
+    fit.destroy();
+
+    expect(mockDisconnect).toHaveBeenCalled();
+    expect(text.style.fontSize).toBe('18px');
+
+    fit.update();
+    expect(text.style.fontSize).toBe('18px');
+  });
+
+  it('should fit once when enabled after being created disabled', async () => {
+    const fit = createFitText(container, text, { enabled: false });
+    await beforePaint();
+    expect(utils.calculateFitResult).not.toHaveBeenCalled();
+
+    fit.setOptions({ enabled: true });
+    await beforePaint();
+
+    expect(utils.calculateFitResult).toHaveBeenCalledTimes(1);
+    expect(text.style.fontSize).toBe('42px');
+
+    fit.destroy();
+  });
+
+  it('should scale nested elements in proportion to the text', async () => {
+    text.innerHTML = '$<big style="font-size: 32px">42</big>/mo';
+    text.style.fontSize = '16px';
+    const big = text.querySelector('big') as HTMLElement;
+
+    const fit = createFitText(container, text, { scaleNested: true });
+    await beforePaint();
+
+    expect(vi.mocked(utils.calculateFitResult).mock.calls[0][9]).toEqual(expect.objectContaining({ nestedScales: [2] }));
+    expect(text.style.fontSize).toBe('42px');
+    expect(big.style.fontSize).toBe('2em');
+
+    fit.destroy();
+
+    expect(text.style.fontSize).toBe('16px');
+    expect(big.style.fontSize).toBe('32px');
+  });
+
+  it('should pass word breaking to the search and the line styles', async () => {
+    const fit = createFitText(container, text, { breakWords: false, hyphenate: true });
+    await beforePaint();
+
+    expect(vi.mocked(utils.calculateFitResult).mock.calls[0][9]).toEqual(
+      expect.objectContaining({ breakWords: false, hyphenate: true })
+    );
+    expect(utils.applyLineModeStyles).toHaveBeenCalledWith(text, 'multi', { breakWords: false, hyphenate: true });
+
+    fit.destroy();
+  });
+
+  describe('overflow', () => {
+    const overflowingResult = { ...fitResult(20, true), contentWidth: 300 };
+
+    it('should truncate a single line with an ellipsis and label it with the full text', async () => {
+      vi.mocked(utils.calculateFitResult).mockReturnValue(overflowingResult);
+      const fit = createFitText(container, text, { overflow: 'ellipsis', lineMode: 'single', applyLineStyles: false });
+      await beforePaint();
+
+      expect(text.style.textOverflow).toBe('ellipsis');
+      expect(text.style.whiteSpace).toBe('nowrap');
+      expect(text.getAttribute('title')).toBe('Label');
+      expect(text.getAttribute('aria-label')).toBe('Label');
+
+      vi.mocked(utils.calculateFitResult).mockReturnValue(fitResult(42));
+      fit.update();
+
+      expect(text.style.textOverflow).toBe('');
+      expect(text.hasAttribute('title')).toBe(false);
+      expect(text.hasAttribute('aria-label')).toBe(false);
+
+      fit.destroy();
+    });
+
+    it('should clamp wrapped text to the lines that fit the available height', async () => {
+      vi.mocked(utils.calculateFitResult).mockReturnValue({ ...overflowingResult, contentHeight: 144, lines: 6 });
+      text.setAttribute('title', 'Custom');
+      const fit = createFitText(container, text, { overflow: 'clamp' });
+      await beforePaint();
+
+      // 100px at a normal line height of 20px * 1.2
+      expect(text.style.getPropertyValue('-webkit-line-clamp')).toBe('4');
+      expect(text.style.overflow).toBe('hidden');
+      expect(text.getAttribute('title')).toBe('Custom');
+
+      fit.destroy();
+
+      expect(text.style.getPropertyValue('-webkit-line-clamp')).toBe('');
+      expect(text.getAttribute('title')).toBe('Custom');
+    });
+
+    it('should clamp to maxLines when the text fits the height but renders more lines', async () => {
+      vi.mocked(utils.calculateFitResult).mockReturnValue({ ...fitResult(20, true), lines: 3 });
+      const fit = createFitText(container, text, { overflow: 'clamp', maxLines: 2 });
+      await beforePaint();
+
+      expect(text.style.getPropertyValue('-webkit-line-clamp')).toBe('2');
+      expect(text.getAttribute('title')).toBe('Label');
+
+      fit.destroy();
+    });
+
+    it('should not clamp or label text that already renders few enough lines', async () => {
+      vi.mocked(utils.calculateFitResult).mockReturnValue(overflowingResult);
+      const fit = createFitText(container, text, { overflow: 'clamp', maxLines: 2 });
+      await beforePaint();
+
+      expect(text.style.getPropertyValue('-webkit-line-clamp')).toBe('');
+      expect(text.hasAttribute('title')).toBe(false);
+
+      fit.destroy();
+    });
+
+    it('should let the container scroll', async () => {
+      vi.mocked(utils.calculateFitResult).mockReturnValue(overflowingResult);
+      const fit = createFitText(container, text, { overflow: 'scroll', lineMode: 'single' });
+      await beforePaint();
+
+      expect(container.style.overflow).toBe('auto');
+      expect(text.style.overflow).toBe('visible');
+      expect(text.hasAttribute('title')).toBe(false);
+
+      fit.destroy();
+      expect(container.style.overflow).toBe('');
+    });
+
+    it('should scroll a single line by the overflowing width with marquee', async () => {
+      vi.mocked(utils.calculateFitResult).mockReturnValue(overflowingResult);
+      const cancel = vi.fn();
+      const animate = vi.fn().mockReturnValue({ cancel });
+      text.animate = animate;
+      const fit = createFitText(container, text, { overflow: 'marquee', lineMode: 'single' });
+      await beforePaint();
+
+      expect(animate).toHaveBeenCalledTimes(1);
+      expect(animate.mock.calls[0][0].at(-1).transform).toBe('translateX(-100px)');
+      expect(container.style.overflow).toBe('hidden');
+
+      fit.setOptions({ overflow: 'visible' });
+      await beforePaint();
+
+      expect(cancel).toHaveBeenCalled();
+      expect(container.style.overflow).toBe('');
+      fit.destroy();
+    });
+
+    it('should truncate instead of scrolling a single line that only overflows in height', async () => {
+      vi.mocked(utils.calculateFitResult).mockReturnValue({ ...fitResult(20, true), contentHeight: 120 });
+      const animate = vi.fn();
+      text.animate = animate;
+      const fit = createFitText(container, text, { overflow: 'marquee', lineMode: 'single' });
+      await beforePaint();
+
+      expect(animate).not.toHaveBeenCalled();
+      expect(text.style.textOverflow).toBe('ellipsis');
+
+      fit.destroy();
+    });
+
+    it('should leave overflowing text alone by default', async () => {
+      vi.mocked(utils.calculateFitResult).mockReturnValue(overflowingResult);
+      const fit = createFitText(container, text, { applyLineStyles: false });
+      await beforePaint();
+
+      expect(text.style.overflow).toBe('');
+      expect(text.hasAttribute('title')).toBe(false);
+
+      fit.destroy();
+    });
+  });
+});
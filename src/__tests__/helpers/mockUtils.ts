@@ -0,0 +1,32 @@
+import { vi } from 'vitest';
+import { FitResult } from '../../types';
+
+/** Result of a fit into a 200x100 container, as the mocked calculations return it */
+export const fitResult = (fontSize: number, overflowing = false): FitResult => ({
+  fontSize,
+  contentWidth: 150,
+  contentHeight: 80,
+  availableWidth: 200,
+  availableHeight: 100,
+  clampedToMin: overflowing,
+  clampedToMax: false,
+  overflowing,
+  lines: 2,
+});
+
+/**
+ * Factory for `vi.mock('../utils', ...)` in the suites that drive the fitting lifecycle:
+ * fonts are loaded, the container has 200x100 of space and every fit lands on 42px.
+ */
+export const mockUtils = () => ({
+  applyLineModeStyles: vi.fn(),
+  areFontsLoaded: vi.fn().mockReturnValue(true),
+  elementUsesFontFamily: vi.fn().mockReturnValue(true),
+  loadFonts: vi.fn().mockResolvedValue(undefined),
+  subscribeToFontLoads: vi.fn().mockReturnValue(() => {}),
+  calculateFitResult: vi.fn().mockReturnValue(fitResult(42)),
+  calculateTransformFitResult: vi.fn().mockReturnValue({ ...fitResult(8), scale: { x: 0.5, y: 0.5 } }),
+  calculateOptimalFontSize: vi.fn().mockReturnValue(42),
+  getAvailableContentSpace: vi.fn().mockReturnValue({ width: 200, height: 100 }),
+  sizeFits: vi.fn().mockReturnValue(true),
+});
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { flushFits, scheduleFit } from '../scheduler';
+
+describe('scheduleFit', () => {
+  let frames: FrameRequestCallback[];
+  let idleCallbacks: IdleRequestCallback[];
+
+  const runFrame = () => frames.shift()?.(0);
+  const runIdle = () => idleCallbacks.shift()?.({ didTimeout: false, timeRemaining: () => 50 });
+
+  beforeEach(() => {
+    frames = [];
+    idleCallbacks = [];
+    vi.stubGlobal('requestAnimationFrame', vi.fn((callback: FrameRequestCallback) => frames.push(callback)));
+    vi.stubGlobal('cancelAnimationFrame', vi.fn());
+    vi.stubGlobal('requestIdleCallback', vi.fn((callback: IdleRequestCallback) => idleCallbacks.push(callback)));
+    vi.stubGlobal('cancelIdleCallback', vi.fn());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should run every measurement before any write in the same frame', () => {
+    const log: string[] = [];
+
+    scheduleFit({ measure: () => log.push('measure a'), apply: () => log.push('apply a') });
+    scheduleFit({ measure: () => log.push('measure b'), apply: () => log.push('apply b') });
+
+    expect(requestAnimationFrame).toHaveBeenCalledTimes(1);
+    runFrame();
+
+    expect(log).toEqual(['measure a', 'measure b', 'apply a', 'apply b']);
+  });
+
+  it('should pass each measurement to its own write', () => {
+    const apply = vi.fn();
+
+    scheduleFit({ measure: () => 42, apply });
+    runFrame();
+
+    expect(apply).toHaveBeenCalledWith(42);
+  });
+
+  it('should spill work past the frame budget to idle time', () => {
+    let time = 0;
+    vi.spyOn(performance, 'now').mockImplementation(() => time);
+    const slowMeasure = () => {
+      time += 10;
+    };
+    const first = vi.fn();
+    const second = vi.fn();
+
+    scheduleFit({ measure: slowMeasure, apply: first });
+    scheduleFit({ measure: slowMeasure, apply: second });
+    runFrame();
+
+    expect(first).toHaveBeenCalled();
+    expect(second).not.toHaveBeenCalled();
+
+    runIdle();
+
+    expect(second).toHaveBeenCalled();
+  });
+
+  it('should write the rest of the batch when one measurement throws', () => {
+    let time = 0;
+    vi.spyOn(performance, 'now').mockImplementation(() => time);
+    const error = new Error('measurer failed');
+    const first = vi.fn();
+    const failed = vi.fn();
+    const last = vi.fn();
+
+    scheduleFit({ measure: () => 1, apply: first });
+    scheduleFit({
+      measure: () => {
+        time += 10;
+        throw error;
+      },
+      apply: failed,
+    });
+    scheduleFit({ measure: () => 3, apply: last });
+
+    expect(runFrame).toThrow(error);
+    expect(first).toHaveBeenCalledWith(1);
+    expect(failed).not.toHaveBeenCalled();
+    expect(last).not.toHaveBeenCalled();
+
+    runIdle();
+
+    expect(last).toHaveBeenCalledWith(3);
+  });
+
+  it('should flush jobs due before paint in a microtask, with the rest of the queue', async () => {
+    const log: string[] = [];
+
+    scheduleFit({ measure: () => log.push('measure a'), apply: () => log.push('apply a') });
+    scheduleFit({ measure: () => log.push('measure b'), apply: () => log.push('apply b') }, { beforePaint: true });
+    scheduleFit({ measure: () => log.push('measure c'), apply: () => log.push('apply c') }, { beforePaint: true });
+    expect(log).toEqual([]);
+
+    await Promise.resolve();
+
+    expect(log).toEqual(['measure a', 'measure b', 'measure c', 'apply a', 'apply b', 'apply c']);
+    expect(cancelAnimationFrame).toHaveBeenCalled();
+  });
+
+  it('should run every queued job on flushFits, whatever the budget', () => {
+    let time = 0;
+    vi.spyOn(performance, 'now').mockImplementation(() => time);
+    const slowMeasure = () => {
+      time += 10;
+    };
+    const first = vi.fn();
+    const second = vi.fn();
+
+    scheduleFit({ measure: slowMeasure, apply: first });
+    scheduleFit({ measure: slowMeasure, apply: second });
+    flushFits();
+
+    expect(first).toHaveBeenCalled();
+    expect(second).toHaveBeenCalled();
+    expect(idleCallbacks).toHaveLength(0);
+  });
+
+  it('should drop cancelled jobs and the pending frame', () => {
+    const apply = vi.fn();
+
+    const cancel = scheduleFit({ measure: () => 1, apply });
+    cancel();
+    runFrame();
+
+    expect(apply).not.toHaveBeenCalled();
+    expect(cancelAnimationFrame).toHaveBeenCalled();
+  });
+});
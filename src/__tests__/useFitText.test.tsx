@@ -1,15 +1,18 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
-import { renderHook } from '@testing-library/react';
-import { act } from 'react';
+import { render, renderHook } from '@testing-library/react';
+import { ReactNode, act } from 'react';
 import { useFitText } from '../useFitText';
+import { UseFitTextOptions } from '../types';
+import { FitTextCacheProvider } from '../FitTextCacheProvider';
+import { createLruCache, noopCache } from '../cache';
 import * as utils from '../utils';
+import { fitResult } from './helpers/mockUtils';
 import '@testing-library/jest-dom';
 
-vi.mock('../utils', () => ({
-  calculateOptimalFontSize: vi.fn().mockReturnValue(42),
-  getAvailableContentSpace: vi.fn().mockReturnValue({ width: 200, height: 100 }),
-  sizeFits: vi.fn().mockReturnValue(true)
-}));
+vi.mock('../utils', async () => (await import('./helpers/mockUtils')).mockUtils());
+
+// Fits queued by a commit are flushed in a microtask, before paint.
+const beforePaint = () => act(async () => {});
 
 describe('useFitText', () => {
   let mockContainerElement: HTMLDivElement;
@@ -99,7 +102,7 @@ describe('useFitText', () => {
       await new Promise(resolve => setTimeout(resolve, 50));
     });
 
-    expect(utils.calculateOptimalFontSize).not.toHaveBeenCalled();
+    expect(utils.calculateFitResult).not.toHaveBeenCalled();
   });
 
   it('should not calculate font size when text ref is null', async () => {
@@ -113,7 +116,7 @@ describe('useFitText', () => {
       await new Promise(resolve => setTimeout(resolve, 50));
     });
 
-    expect(utils.calculateOptimalFontSize).not.toHaveBeenCalled();
+    expect(utils.calculateFitResult).not.toHaveBeenCalled();
   });
 
   it('should not calculate font size when container dimensions are zero', async () => {
@@ -130,7 +133,7 @@ describe('useFitText', () => {
       await new Promise(resolve => setTimeout(resolve, 50));
     });
 
-    expect(utils.calculateOptimalFontSize).not.toHaveBeenCalled();
+    expect(utils.calculateFitResult).not.toHaveBeenCalled();
 
     vi.mocked(utils.getAvailableContentSpace).mockReturnValue({ width: 200, height: 100 });
   });
@@ -176,6 +179,7 @@ describe('useFitText', () => {
     });
 
     rerender({ minSize: 20 });
+    await beforePaint();
 
     await act(async () => {
       await new Promise(resolve => setTimeout(resolve, 50));
@@ -224,7 +228,7 @@ describe('useFitText', () => {
   });
 
   it('should handle fontSize updates correctly', async () => {
-    vi.mocked(utils.calculateOptimalFontSize).mockReturnValue(24);
+    vi.mocked(utils.calculateFitResult).mockReturnValue(fitResult(24));
 
     const { result } = renderHook(() => useFitText());
 
@@ -329,4 +333,715 @@ describe('useFitText', () => {
     vi.useRealTimers();
     expect(mockClearTimeout).toBeDefined();
   });
+
+  describe('callback refs', () => {
+    const Conditional = ({ show }: { show: boolean }) => {
+      const { containerRef, textRef, fontSize } = useFitText();
+      return (
+        <div>
+          <span data-testid="size">{fontSize}</span>
+          {show && (
+            <div ref={containerRef}>
+              <div ref={textRef}>Late text</div>
+            </div>
+          )}
+        </div>
+      );
+    };
+
+    it('should fit elements that mount after the hook', async () => {
+      vi.mocked(utils.calculateFitResult).mockReturnValue(fitResult(42));
+      const { rerender, getByTestId } = render(<Conditional show={false} />);
+      await beforePaint();
+
+      expect(utils.calculateFitResult).not.toHaveBeenCalled();
+
+      rerender(<Conditional show={true} />);
+      await beforePaint();
+
+      expect(utils.calculateFitResult).toHaveBeenCalled();
+      expect(getByTestId('size').textContent).toBe('42');
+    });
+
+    it('should observe the container once it mounts and disconnect when it unmounts', async () => {
+      const mockObserve = vi.fn();
+      const mockDisconnect = vi.fn();
+      global.ResizeObserver = vi.fn().mockImplementation(function() {
+        return {
+          observe: mockObserve,
+          disconnect: mockDisconnect,
+          unobserve: vi.fn(),
+        };
+      });
+
+      const { rerender } = render(<Conditional show={false} />);
+      await beforePaint();
+      expect(mockObserve).not.toHaveBeenCalled();
+
+      rerender(<Conditional show={true} />);
+      await beforePaint();
+      expect(mockObserve).toHaveBeenCalledWith(expect.any(HTMLDivElement));
+
+      mockDisconnect.mockClear();
+      rerender(<Conditional show={false} />);
+      await beforePaint();
+      expect(mockDisconnect).toHaveBeenCalled();
+    });
+
+    it('should expose the attached node through current', () => {
+      const { result } = renderHook(() => useFitText());
+
+      act(() => {
+        result.current.containerRef(mockContainerElement);
+      });
+
+      expect(result.current.containerRef.current).toBe(mockContainerElement);
+    });
+  });
+
+  describe('fit callbacks', () => {
+    const Fitted = (props: { onFit?: () => void; onOverflow?: () => void }) => {
+      const { containerRef, textRef, overflowing } = useFitText(props);
+      return (
+        <div ref={containerRef}>
+          <div ref={textRef} data-testid="text" data-overflowing={String(overflowing)}>Label</div>
+        </div>
+      );
+    };
+
+    it('should call onFit with the fit result when the text fits', async () => {
+      vi.mocked(utils.calculateFitResult).mockReturnValue(fitResult(42));
+      const onFit = vi.fn();
+      const onOverflow = vi.fn();
+
+      const { getByTestId } = render(<Fitted onFit={onFit} onOverflow={onOverflow} />);
+      await beforePaint();
+
+      expect(onFit).toHaveBeenCalledWith(fitResult(42));
+      expect(onOverflow).not.toHaveBeenCalled();
+      expect(getByTestId('text').dataset.overflowing).toBe('false');
+    });
+
+    it('should call onOverflow and flag overflowing when the text cannot fit', async () => {
+      vi.mocked(utils.calculateFitResult).mockReturnValue(fitResult(1, true));
+      const onFit = vi.fn();
+      const onOverflow = vi.fn();
+
+      const { getByTestId } = render(<Fitted onFit={onFit} onOverflow={onOverflow} />);
+      await beforePaint();
+
+      expect(onOverflow).toHaveBeenCalledWith(expect.objectContaining({ overflowing: true, clampedToMin: true }));
+      expect(onFit).not.toHaveBeenCalled();
+      expect(getByTestId('text').dataset.overflowing).toBe('true');
+
+      vi.mocked(utils.calculateFitResult).mockReturnValue(fitResult(42));
+    });
+
+    it('should measure every instance of a commit before writing to any', async () => {
+      const sizesWhenMeasured: string[] = [];
+      const measure = () => {
+        document.querySelectorAll<HTMLElement>('[data-testid="text"]').forEach(text => {
+          sizesWhenMeasured.push(text.style.fontSize);
+        });
+        return fitResult(42);
+      };
+      vi.mocked(utils.calculateFitResult).mockImplementationOnce(measure).mockImplementationOnce(measure);
+
+      const { getAllByTestId } = render(<><Fitted /><Fitted /></>);
+      expect(utils.calculateFitResult).not.toHaveBeenCalled();
+      await beforePaint();
+
+      expect(sizesWhenMeasured).toEqual(['', '', '', '']);
+      getAllByTestId('text').forEach(text => expect(text.style.fontSize).toBe('42px'));
+    });
+  });
+
+  describe('imperative handles', () => {
+    const setup = async () => {
+      vi.mocked(utils.calculateFitResult).mockReturnValue(fitResult(42));
+      const { result } = renderHook(() => useFitText());
+
+      act(() => {
+        result.current.containerRef(mockContainerElement);
+        result.current.textRef(mockTextElement);
+      });
+      await beforePaint();
+
+      return result;
+    };
+
+    it('should refit on recalculate even when nothing changed', async () => {
+      const result = await setup();
+      vi.mocked(utils.calculateFitResult).mockClear();
+
+      act(() => {
+        result.current.recalculate();
+      });
+
+      expect(utils.calculateFitResult).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(utils.calculateFitResult).mock.calls[0][8]).toBe(false);
+    });
+
+    it('should bypass the cache on a forced recalculate', async () => {
+      const result = await setup();
+      vi.mocked(utils.calculateFitResult).mockClear();
+
+      act(() => {
+        result.current.recalculate({ force: true });
+      });
+
+      expect(vi.mocked(utils.calculateFitResult).mock.calls[0][8]).toBe(true);
+    });
+
+    it('should restore the initial state on reset', async () => {
+      const result = await setup();
+      expect(result.current.fontSize).toBe(42);
+      expect(mockTextElement.style.fontSize).toBe('42px');
+
+      act(() => {
+        result.current.reset();
+      });
+
+      expect(result.current.fontSize).toBe(100);
+      expect(result.current.overflowing).toBe(false);
+      expect(mockTextElement.style.fontSize).toBe('');
+
+      act(() => {
+        result.current.recalculate();
+      });
+
+      expect(mockTextElement.style.fontSize).toBe('42px');
+    });
+  });
+
+  describe('font loading', () => {
+    const attach = async (options = {}) => {
+      vi.mocked(utils.calculateFitResult).mockReturnValue(fitResult(42));
+      const { result } = renderHook(() => useFitText(options));
+
+      act(() => {
+        result.current.containerRef(mockContainerElement);
+        result.current.textRef(mockTextElement);
+      });
+      await beforePaint();
+
+      return result;
+    };
+
+    it('should refit past the cache when a used font finishes loading', async () => {
+      await attach();
+      const listener = vi.mocked(utils.subscribeToFontLoads).mock.calls.at(-1)![0];
+      vi.mocked(utils.calculateFitResult).mockClear();
+
+      act(() => {
+        listener(['Inter']);
+      });
+
+      // The refit joins the next batched flush.
+      await act(async () => {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      });
+
+      expect(vi.mocked(utils.calculateFitResult).mock.calls[0][8]).toBe(true);
+    });
+
+    it('should ignore fonts the text does not use', async () => {
+      vi.mocked(utils.elementUsesFontFamily).mockReturnValueOnce(false);
+      await attach();
+      const listener = vi.mocked(utils.subscribeToFontLoads).mock.calls.at(-1)![0];
+      vi.mocked(utils.calculateFitResult).mockClear();
+
+      act(() => {
+        listener(['Other']);
+      });
+
+      await act(async () => {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      });
+
+      expect(utils.calculateFitResult).not.toHaveBeenCalled();
+    });
+
+    it('should not subscribe when refitOnFontLoad is disabled', async () => {
+      await attach({ refitOnFontLoad: false });
+
+      expect(utils.subscribeToFontLoads).not.toHaveBeenCalled();
+    });
+
+    it('should hide the text until fonts load when waitForFonts is set', async () => {
+      vi.mocked(utils.areFontsLoaded).mockReturnValueOnce(false);
+      let resolveFonts: () => void = () => {};
+      vi.mocked(utils.loadFonts).mockReturnValueOnce(new Promise<void>(resolve => { resolveFonts = resolve; }));
+
+      await attach({ waitForFonts: true });
+
+      expect(mockTextElement.style.visibility).toBe('hidden');
+      vi.mocked(utils.calculateFitResult).mockClear();
+
+      await act(async () => {
+        resolveFonts();
+      });
+
+      expect(mockTextElement.style.visibility).toBe('');
+      expect(vi.mocked(utils.calculateFitResult).mock.calls[0][8]).toBe(true);
+    });
+  });
+
+  describe('status', () => {
+    it('should be idle and not ready before elements are attached', () => {
+      const { result } = renderHook(() => useFitText());
+
+      expect(result.current.status).toBe('idle');
+      expect(result.current.isReady).toBe(false);
+    });
+
+    it('should report fitted or overflow after a calculation', async () => {
+      vi.mocked(utils.calculateFitResult).mockReturnValue(fitResult(42));
+      const { result } = renderHook(() => useFitText());
+
+      act(() => {
+        result.current.containerRef(mockContainerElement);
+        result.current.textRef(mockTextElement);
+      });
+      await beforePaint();
+
+      expect(result.current.status).toBe('fitted');
+      expect(result.current.isReady).toBe(true);
+
+      vi.mocked(utils.calculateFitResult).mockReturnValue(fitResult(1, true));
+      act(() => {
+        result.current.recalculate();
+      });
+
+      expect(result.current.status).toBe('overflow');
+      vi.mocked(utils.calculateFitResult).mockReturnValue(fitResult(42));
+    });
+
+    it('should report measuring while a refit is pending', async () => {
+      let resizeCallback: ResizeObserverCallback = () => {};
+      global.ResizeObserver = vi.fn().mockImplementation(function(callback: ResizeObserverCallback) {
+        resizeCallback = callback;
+        return { observe: vi.fn(), disconnect: vi.fn(), unobserve: vi.fn() };
+      });
+      vi.mocked(utils.calculateFitResult).mockReturnValue(fitResult(42));
+      const { result } = renderHook(() => useFitText({ debounceDelay: 10 }));
+
+      act(() => {
+        result.current.containerRef(mockContainerElement);
+        result.current.textRef(mockTextElement);
+      });
+      await beforePaint();
+
+      act(() => {
+        resizeCallback([
+          { target: mockContainerElement, contentRect: { width: 200, height: 100 } } as unknown as ResizeObserverEntry
+        ], {} as ResizeObserver);
+      });
+      expect(result.current.status).toBe('measuring');
+
+      await act(async () => {
+        await new Promise(resolve => setTimeout(resolve, 30));
+      });
+      expect(result.current.status).toBe('fitted');
+    });
+
+    it('should hide the text until the first fit with hideUntilFitted', async () => {
+      vi.mocked(utils.getAvailableContentSpace).mockReturnValue({ width: 0, height: 0 });
+      const { result } = renderHook(() => useFitText({ hideUntilFitted: true }));
+
+      act(() => {
+        result.current.containerRef(mockContainerElement);
+        result.current.textRef(mockTextElement);
+      });
+      await beforePaint();
+
+      expect(mockTextElement.style.visibility).toBe('hidden');
+
+      vi.mocked(utils.getAvailableContentSpace).mockReturnValue({ width: 200, height: 100 });
+      act(() => {
+        result.current.recalculate();
+      });
+
+      expect(result.current.isReady).toBe(true);
+      expect(mockTextElement.style.visibility).toBe('');
+    });
+
+    it('should leave the text visible after a reset with hideUntilFitted', async () => {
+      vi.mocked(utils.calculateFitResult).mockReturnValue(fitResult(42));
+      const { result } = renderHook(() => useFitText({ hideUntilFitted: true }));
+
+      act(() => {
+        result.current.containerRef(mockContainerElement);
+        result.current.textRef(mockTextElement);
+      });
+      await beforePaint();
+      expect(mockTextElement.style.visibility).toBe('');
+
+      act(() => {
+        result.current.reset();
+      });
+      await beforePaint();
+
+      expect(result.current.isReady).toBe(false);
+      expect(mockTextElement.style.visibility).toBe('');
+    });
+
+    it('should return to idle on reset', async () => {
+      const { result } = renderHook(() => useFitText());
+
+      act(() => {
+        result.current.containerRef(mockContainerElement);
+        result.current.textRef(mockTextElement);
+      });
+      await beforePaint();
+      act(() => {
+        result.current.reset();
+      });
+
+      expect(result.current.status).toBe('idle');
+      expect(result.current.isReady).toBe(false);
+    });
+  });
+
+  describe('output', () => {
+    const attach = async (options = {}) => {
+      vi.mocked(utils.calculateFitResult).mockReturnValue(fitResult(42));
+      const { result } = renderHook(() => useFitText(options));
+
+      act(() => {
+        result.current.containerRef(mockContainerElement);
+        result.current.textRef(mockTextElement);
+      });
+      await beforePaint();
+
+      return result;
+    };
+
+    it('should set --fit-font-size on the container in cssVariable mode', async () => {
+      const result = await attach({ output: 'cssVariable' });
+
+      expect(mockContainerElement.style.getPropertyValue('--fit-font-size')).toBe('42px');
+      expect(mockTextElement.style.fontSize).toBe('');
+
+      act(() => {
+        result.current.reset();
+      });
+
+      expect(mockContainerElement.style.getPropertyValue('--fit-font-size')).toBe('');
+    });
+
+    it('should set --fit-font-size on the text element when targeted', async () => {
+      await attach({ output: 'cssVariable', cssVariableTarget: 'text' });
+
+      expect(mockTextElement.style.getPropertyValue('--fit-font-size')).toBe('42px');
+      expect(mockContainerElement.style.getPropertyValue('--fit-font-size')).toBe('');
+    });
+
+    it('should only return the size in none mode', async () => {
+      const result = await attach({ output: 'none' });
+
+      expect(result.current.fontSize).toBe(42);
+      expect(mockTextElement.style.fontSize).toBe('');
+      expect(mockContainerElement.style.getPropertyValue('--fit-font-size')).toBe('');
+    });
+  });
+
+  describe('transform strategy', () => {
+    it('should apply a scale transform instead of a font size', async () => {
+      const { result } = renderHook(() => useFitText({ strategy: 'transform' }));
+
+      act(() => {
+        result.current.containerRef(mockContainerElement);
+        result.current.textRef(mockTextElement);
+      });
+      await beforePaint();
+
+      expect(utils.calculateTransformFitResult).toHaveBeenCalled();
+      expect(utils.calculateFitResult).not.toHaveBeenCalled();
+      expect(mockTextElement.style.transform).toBe('scale(0.5)');
+      expect(mockTextElement.style.transformOrigin).toBe('top left');
+      expect(mockTextElement.style.fontSize).toBe('');
+      expect(result.current.fontSize).toBe(8);
+
+      act(() => {
+        result.current.reset();
+      });
+
+      expect(mockTextElement.style.transform).toBe('');
+    });
+  });
+
+  describe('style preservation', () => {
+    it('should restore original inline styles on unmount', async () => {
+      vi.mocked(utils.calculateFitResult).mockReturnValue(fitResult(42));
+      mockTextElement.style.fontSize = '18px';
+      mockTextElement.style.whiteSpace = 'pre-line';
+
+      const { result, unmount } = renderHook(() => useFitText());
+
+      act(() => {
+        result.current.containerRef(mockContainerElement);
+        result.current.textRef(mockTextElement);
+      });
+      await beforePaint();
+      mockTextElement.style.whiteSpace = 'normal';
+
+      expect(mockTextElement.style.fontSize).toBe('42px');
+
+      unmount();
+
+      expect(mockTextElement.style.fontSize).toBe('18px');
+      expect(mockTextElement.style.whiteSpace).toBe('pre-line');
+    });
+
+    it('should restore styles written for the previous options when they change', async () => {
+      vi.mocked(utils.calculateFitResult).mockReturnValue(fitResult(42));
+      const { result, rerender } = renderHook(
+        ({ output }) => useFitText({ output }),
+        { initialProps: { output: 'inline' as 'inline' | 'cssVariable' } }
+      );
+
+      act(() => {
+        result.current.containerRef(mockContainerElement);
+        result.current.textRef(mockTextElement);
+      });
+      await beforePaint();
+      expect(mockTextElement.style.fontSize).toBe('42px');
+
+      rerender({ output: 'cssVariable' });
+      await beforePaint();
+
+      expect(mockTextElement.style.fontSize).toBe('');
+      expect(mockContainerElement.style.getPropertyValue('--fit-font-size')).toBe('42px');
+    });
+
+    it('should fall back to the defaults for options that are no longer passed', async () => {
+      vi.mocked(utils.calculateFitResult).mockReturnValue(fitResult(42));
+      const { result, rerender } = renderHook(
+        (options: UseFitTextOptions) => useFitText(options),
+        { initialProps: { maxLines: 2, output: 'none' } as UseFitTextOptions }
+      );
+
+      act(() => {
+        result.current.containerRef(mockContainerElement);
+        result.current.textRef(mockTextElement);
+      });
+      await beforePaint();
+      expect(mockTextElement.style.fontSize).toBe('');
+      vi.mocked(utils.calculateFitResult).mockClear();
+
+      rerender({});
+      await beforePaint();
+
+      expect(utils.calculateFitResult).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(utils.calculateFitResult).mock.calls[0][9]).toEqual(expect.objectContaining({ maxLines: undefined }));
+      expect(mockTextElement.style.fontSize).toBe('42px');
+    });
+
+    it('should skip line mode styles when applyLineStyles is false', async () => {
+      const { result } = renderHook(() => useFitText({ applyLineStyles: false }));
+
+      act(() => {
+        result.current.containerRef(mockContainerElement);
+        result.current.textRef(mockTextElement);
+      });
+      await beforePaint();
+
+      expect(utils.calculateFitResult).toHaveBeenCalled();
+      expect(utils.applyLineModeStyles).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('enabled', () => {
+    const attach = async (initialEnabled: boolean, restoreOnDisable = false) => {
+      const mockDisconnect = vi.fn();
+      global.ResizeObserver = vi.fn().mockImplementation(function() {
+        return { observe: vi.fn(), disconnect: mockDisconnect, unobserve: vi.fn() };
+      });
+      vi.mocked(utils.calculateFitResult).mockReturnValue(fitResult(42));
+
+      const hook = renderHook(
+        ({ enabled }) => useFitText({ enabled, restoreOnDisable }),
+        { initialProps: { enabled: initialEnabled } }
+      );
+
+      act(() => {
+        hook.result.current.containerRef(mockContainerElement);
+        hook.result.current.textRef(mockTextElement);
+      });
+      await beforePaint();
+
+      return { ...hook, mockDisconnect };
+    };
+
+    it('should not observe or fit while disabled', async () => {
+      const { result } = await attach(false);
+
+      expect(global.ResizeObserver).not.toHaveBeenCalled();
+      expect(utils.calculateFitResult).not.toHaveBeenCalled();
+
+      act(() => {
+        result.current.recalculate();
+      });
+
+      expect(utils.calculateFitResult).not.toHaveBeenCalled();
+    });
+
+    it('should disconnect observers and cancel pending work when disabled', async () => {
+      const { rerender, mockDisconnect } = await attach(true);
+
+      rerender({ enabled: false });
+      await beforePaint();
+
+      expect(mockDisconnect).toHaveBeenCalled();
+      expect(mockTextElement.style.fontSize).toBe('42px');
+    });
+
+    it('should perform a catch-up fit when re-enabled', async () => {
+      const { result, rerender } = await attach(false);
+
+      vi.mocked(utils.calculateFitResult).mockReturnValue(fitResult(30));
+      rerender({ enabled: true });
+      await beforePaint();
+
+      expect(utils.calculateFitResult).toHaveBeenCalledTimes(1);
+      expect(result.current.fontSize).toBe(30);
+    });
+
+    it('should restore the original font size when restoreOnDisable is set', async () => {
+      const { rerender } = await attach(true, true);
+      expect(mockTextElement.style.fontSize).toBe('42px');
+
+      rerender({ enabled: false });
+      await beforePaint();
+      expect(mockTextElement.style.fontSize).toBe('');
+
+      rerender({ enabled: true });
+      await beforePaint();
+      expect(mockTextElement.style.fontSize).toBe('42px');
+    });
+  });
+
+  describe('shared resize observer', () => {
+    let resizeCallback: ResizeObserverCallback = () => {};
+    const mockObserve = vi.fn();
+    const mockUnobserve = vi.fn();
+    const mockDisconnect = vi.fn();
+
+    beforeEach(() => {
+      global.ResizeObserver = vi.fn().mockImplementation(function(callback: ResizeObserverCallback) {
+        resizeCallback = callback;
+        return { observe: mockObserve, disconnect: mockDisconnect, unobserve: mockUnobserve };
+      });
+      vi.mocked(utils.calculateFitResult).mockReturnValue(fitResult(42));
+    });
+
+    const attach = async () => {
+      const container = document.createElement('div');
+      const text = document.createElement('div');
+      const hook = renderHook(() => useFitText({ debounceDelay: 10 }));
+
+      act(() => {
+        hook.result.current.containerRef(container);
+        hook.result.current.textRef(text);
+      });
+      await beforePaint();
+
+      return { ...hook, container, text };
+    };
+
+    it('should observe every container through one ResizeObserver', async () => {
+      const first = await attach();
+      const second = await attach();
+
+      expect(global.ResizeObserver).toHaveBeenCalledTimes(1);
+      expect(mockObserve).toHaveBeenCalledWith(first.container);
+      expect(mockObserve).toHaveBeenCalledWith(second.container);
+
+      first.unmount();
+      expect(mockUnobserve).toHaveBeenCalledWith(first.container);
+      expect(mockDisconnect).not.toHaveBeenCalled();
+
+      second.unmount();
+      expect(mockDisconnect).toHaveBeenCalled();
+    });
+
+    it('should fit against the content rect of the entry', async () => {
+      const first = await attach();
+      const second = await attach();
+      vi.mocked(utils.getAvailableContentSpace).mockClear();
+      vi.mocked(utils.calculateFitResult).mockClear();
+
+      act(() => {
+        resizeCallback([
+          { target: second.container, contentRect: { width: 320, height: 80 } } as unknown as ResizeObserverEntry
+        ], {} as ResizeObserver);
+      });
+
+      await act(async () => {
+        await new Promise(resolve => setTimeout(resolve, 30));
+      });
+
+      expect(utils.calculateFitResult).toHaveBeenCalledTimes(1);
+      expect(utils.calculateFitResult).toHaveBeenCalledWith(
+        second.text, 320, 80, 1, 100, 0.5, 'both', 'multi', false, expect.any(Object)
+      );
+      expect(utils.getAvailableContentSpace).not.toHaveBeenCalled();
+      expect(first.result.current.status).toBe('fitted');
+    });
+  });
+
+  describe('cache', () => {
+    const attach = async (options = {}, wrapper?: ({ children }: { children: ReactNode }) => ReactNode) => {
+      vi.mocked(utils.calculateFitResult).mockReturnValue(fitResult(42));
+      const { result } = renderHook(() => useFitText(options), { wrapper });
+
+      act(() => {
+        result.current.containerRef(mockContainerElement);
+        result.current.textRef(mockTextElement);
+      });
+      await beforePaint();
+    };
+
+    const lastCache = () => vi.mocked(utils.calculateFitResult).mock.calls.at(-1)![9]?.cache;
+
+    it('should use the shared default cache unless one is given', async () => {
+      await attach();
+
+      expect(lastCache()).toBeUndefined();
+    });
+
+    it('should use the cache from the nearest provider', async () => {
+      const cache = createLruCache({ maxEntries: 10 });
+
+      await attach({}, ({ children }) => <FitTextCacheProvider cache={cache}>{children}</FitTextCacheProvider>);
+
+      expect(lastCache()).toBe(cache);
+    });
+
+    it('should prefer the cache option over the provider', async () => {
+      await attach(
+        { cache: noopCache },
+        ({ children }) => <FitTextCacheProvider cache={createLruCache()}>{children}</FitTextCacheProvider>
+      );
+
+      expect(lastCache()).toBe(noopCache);
+    });
+  });
+
+  describe('measurer', () => {
+    it('should pass the measurer to the size search', async () => {
+      const measurer = { measure: vi.fn() };
+      vi.mocked(utils.calculateFitResult).mockReturnValue(fitResult(42));
+      const { result } = renderHook(() => useFitText({ measurer }));
+
+      act(() => {
+        result.current.containerRef(mockContainerElement);
+        result.current.textRef(mockTextElement);
+      });
+      await beforePaint();
+
+      expect(vi.mocked(utils.calculateFitResult).mock.calls.at(-1)![9]).toEqual(expect.objectContaining({ measurer }));
+    });
+  });
 });
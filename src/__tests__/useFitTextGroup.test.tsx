@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { render } from '@testing-library/react';
+import { useFitTextGroup } from '../useFitTextGroup';
+import { FitTextGroupReducer, UseFitTextGroupReturn } from '../types';
+import * as utils from '../utils';
+
+vi.mock('../utils', () => ({
+  applyLineModeStyles: vi.fn(),
+  calculateOptimalFontSize: vi.fn(),
+  getAvailableContentSpace: vi.fn().mockReturnValue({ width: 200, height: 100 }),
+}));
+
+const sizesByText: Record<string, number> = { Short: 40, Medium: 30, 'A much longer label': 12 };
+
+interface TilesProps {
+  labels: string[];
+  reducer?: FitTextGroupReducer;
+  allowedSizes?: number[];
+  onGroup?: (group: UseFitTextGroupReturn) => void;
+}
+
+const Tiles = ({ labels, reducer, allowedSizes, onGroup }: TilesProps) => {
+  const group = useFitTextGroup({ reducer, allowedSizes });
+  onGroup?.(group);
+
+  return (
+    <div>
+      <span data-testid="size">{group.fontSize}</span>
+      {labels.map((label) => {
+        const { containerRef, textRef } = group.member(label);
+        return (
+          <div key={label} ref={containerRef}>
+            <span ref={textRef} data-testid={label}>{label}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+describe('useFitTextGroup', () => {
+  const originalRO = global.ResizeObserver;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(utils.calculateOptimalFontSize).mockImplementation(
+      (element) => sizesByText[element.textContent || ''] ?? 100
+    );
+
+    global.ResizeObserver = vi.fn().mockImplementation(function() {
+      return {
+        observe: vi.fn(),
+        disconnect: vi.fn(),
+        unobserve: vi.fn(),
+      };
+    });
+  });
+
+  afterEach(() => {
+    global.ResizeObserver = originalRO;
+  });
+
+  it('should apply the smallest member size to every member', () => {
+    const { getByTestId } = render(<Tiles labels={['Short', 'Medium']} />);
+
+    expect(getByTestId('size').textContent).toBe('30');
+    expect(getByTestId('Short').style.fontSize).toBe('30px');
+    expect(getByTestId('Medium').style.fontSize).toBe('30px');
+  });
+
+  it('should support the median reducer', () => {
+    const { getByTestId } = render(
+      <Tiles labels={['Short', 'Medium', 'A much longer label']} reducer="median" />
+    );
+
+    expect(getByTestId('size').textContent).toBe('30');
+  });
+
+  it('should support a custom reducer', () => {
+    const { getByTestId } = render(
+      <Tiles labels={['Short', 'Medium']} reducer={(sizes) => Math.max(...sizes)} />
+    );
+
+    expect(getByTestId('size').textContent).toBe('40');
+  });
+
+  it('should snap a reduced size onto the allowed sizes', () => {
+    const { getByTestId } = render(
+      <Tiles labels={['Short', 'Medium']} reducer="median" allowedSizes={[12, 24, 32, 48]} />
+    );
+
+    expect(getByTestId('size').textContent).toBe('32');
+  });
+
+  it('should recompute when members join and leave', () => {
+    const { getByTestId, rerender } = render(<Tiles labels={['Short']} />);
+    expect(getByTestId('size').textContent).toBe('40');
+
+    rerender(<Tiles labels={['Short', 'A much longer label']} />);
+    expect(getByTestId('size').textContent).toBe('12');
+    expect(getByTestId('Short').style.fontSize).toBe('12px');
+
+    rerender(<Tiles labels={['Short']} />);
+    expect(getByTestId('size').textContent).toBe('40');
+  });
+
+  it('should restore the inline styles of members that leave', () => {
+    const { getByTestId, rerender } = render(<Tiles labels={['Short', 'Medium']} />);
+    const medium = getByTestId('Medium');
+    expect(medium.style.fontSize).toBe('30px');
+
+    rerender(<Tiles labels={['Short']} />);
+
+    expect(medium.style.fontSize).toBe('');
+  });
+
+  it('should forget members that have left', () => {
+    let group: UseFitTextGroupReturn | null = null;
+    const onGroup = (current: UseFitTextGroupReturn) => {
+      group = current;
+    };
+    const { rerender } = render(<Tiles labels={['Short', 'Medium']} onGroup={onGroup} />);
+    const refs = group!.member('Medium');
+    const kept = group!.member('Short');
+
+    rerender(<Tiles labels={['Short']} onGroup={onGroup} />);
+
+    expect(group!.member('Medium')).not.toBe(refs);
+    expect(group!.member('Short')).toBe(kept);
+  });
+
+  it('should skip members whose container has no space', () => {
+    vi.mocked(utils.getAvailableContentSpace).mockReturnValue({ width: 0, height: 0 });
+
+    const { getByTestId } = render(<Tiles labels={['Short', 'Medium']} />);
+
+    expect(utils.calculateOptimalFontSize).not.toHaveBeenCalled();
+    expect(getByTestId('size').textContent).toBe('100');
+
+    vi.mocked(utils.getAvailableContentSpace).mockReturnValue({ width: 200, height: 100 });
+  });
+});
@@ -1,5 +1,16 @@
-import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { calculateOptimalFontSize, getAvailableContentSpace, sizeFits } from '../utils';
+import { describe, it, expect, beforeEach, afterEach, vi, Mock } from 'vitest';
+import {
+  applyLineModeStyles,
+  calculateFitResult,
+  calculateOptimalFontSize,
+  calculateTransformFitResult,
+  elementUsesFontFamily,
+  getAvailableContentSpace,
+  sizeFits,
+  subscribeToFontLoads
+} from '../utils';
+import { createCanvasMeasurer, createDomMeasurer, getMeasurerFont, getNestedFontScales } from '../measurer';
+import { LineMode, Measurer, MeasurerFont } from '../types';
 
 describe('Utils', () => {
   afterEach(() => {
@@ -250,6 +261,511 @@ describe('Utils', () => {
     });
   });
 
+  describe('calculateFitResult', () => {
+    function createElementWithScale(widthMultiplier: number, heightMultiplier: number) {
+      const element = document.createElement('div');
+      element.textContent = `Scaled ${widthMultiplier}x${heightMultiplier}`;
+      const clone = document.createElement('div');
+      clone.textContent = element.textContent;
+      Object.defineProperty(clone, 'scrollWidth', {
+        get: () => (parseFloat(clone.style.fontSize) || 16) * widthMultiplier,
+        configurable: true,
+      });
+      Object.defineProperty(clone, 'scrollHeight', {
+        get: () => (parseFloat(clone.style.fontSize) || 16) * heightMultiplier,
+        configurable: true,
+      });
+      vi.spyOn(element, 'cloneNode').mockReturnValue(clone);
+      return element;
+    }
+
+    it('should report measurements and available space for a fitting text', () => {
+      const element = createElementWithScale(2, 1);
+
+      const result = calculateFitResult(element, 120, 300, 10, 100, 0.5, 'both');
+
+      expect(result.fontSize).toBeLessThanOrEqual(60);
+      expect(result.contentWidth).toBeCloseTo(result.fontSize * 2);
+      expect(result.contentHeight).toBeCloseTo(result.fontSize);
+      expect(result.availableWidth).toBe(120);
+      expect(result.availableHeight).toBe(300);
+      expect(result.overflowing).toBe(false);
+      expect(result.clampedToMin).toBe(false);
+      expect(result.clampedToMax).toBe(false);
+    });
+
+    it('should flag clampedToMax when the text fits at maxFontSize', () => {
+      const element = createElementWithScale(0.5, 0.5);
+
+      const result = calculateFitResult(element, 220, 220, 10, 100, 0.5, 'both');
+
+      expect(result.fontSize).toBe(100);
+      expect(result.clampedToMax).toBe(true);
+      expect(result.overflowing).toBe(false);
+    });
+
+    it('should skip the cache when bypassCache is set', () => {
+      const element = createElementWithScale(2, 1);
+      const first = calculateFitResult(element, 90, 300, 10, 100, 0.5, 'both');
+
+      const narrower = createElementWithScale(3, 1);
+      narrower.textContent = element.textContent;
+
+      expect(calculateFitResult(narrower, 90, 300, 10, 100, 0.5, 'both')).toBe(first);
+      expect(calculateFitResult(narrower, 90, 300, 10, 100, 0.5, 'both', 'multi', true).fontSize)
+        .toBeLessThan(first.fontSize);
+    });
+
+    // Simulates wrapping: a 400px wide run of text at 10px, line-height 1.2, wrapped at 100px.
+    function createWrappingElement(text: string) {
+      const element = document.createElement('div');
+      element.textContent = text;
+      element.style.fontSize = '10px';
+      element.style.lineHeight = '12px';
+      document.body.appendChild(element);
+      const clone = document.createElement('div');
+      clone.textContent = text;
+      Object.defineProperty(clone, 'scrollWidth', { get: () => 100, configurable: true });
+      Object.defineProperty(clone, 'scrollHeight', {
+        get: () => {
+          const fontSize = parseFloat(clone.style.fontSize) || 16;
+          return Math.ceil((fontSize * 40) / 100) * fontSize * 1.2;
+        },
+        configurable: true,
+      });
+      vi.spyOn(element, 'cloneNode').mockReturnValue(clone);
+      return element;
+    }
+
+    it('should limit the number of rendered lines with maxLines', () => {
+      const element = createWrappingElement('Never more than two lines');
+
+      const unconstrained = calculateFitResult(element, 100, 1000, 1, 20, 0.5, 'width', 'multi', true);
+      const constrained = calculateFitResult(element, 100, 1000, 1, 20, 0.5, 'width', 'multi', true, { maxLines: 2 });
+
+      expect(unconstrained.fontSize).toBe(20);
+      expect(unconstrained.lines).toBe(8);
+      expect(constrained.lines).toBeLessThanOrEqual(2);
+      expect(constrained.fontSize).toBeLessThanOrEqual(5);
+      expect(constrained.overflowing).toBe(false);
+      element.remove();
+    });
+
+    it('should raise the size until minLines is reached', () => {
+      const element = createWrappingElement('At least three lines');
+
+      const result = calculateFitResult(element, 100, 1000, 1, 20, 0.5, 'width', 'multi', true, { maxLines: 2, minLines: 3 });
+
+      expect(result.lines).toBeGreaterThanOrEqual(3);
+      expect(result.overflowing).toBe(true);
+      element.remove();
+    });
+
+    it('should pick the largest allowed size that fits', () => {
+      const element = createElementWithScale(2, 1);
+
+      const result = calculateFitResult(element, 70, 300, 10, 100, 0.5, 'both', 'multi', true, {
+        allowedSizes: [12, 14, 16, 20, 24, 32, 40, 48],
+      });
+
+      expect(result.fontSize).toBe(32);
+      expect(result.step).toBe(5);
+      expect(result.overflowing).toBe(false);
+    });
+
+    it('should report the smallest allowed size as clamped when nothing fits', () => {
+      const element = createElementWithScale(2, 1);
+
+      const result = calculateFitResult(element, 10, 300, 10, 100, 0.5, 'both', 'single', true, {
+        allowedSizes: [48, 12, 24, 4],
+      });
+
+      expect(result.fontSize).toBe(12);
+      expect(result.step).toBe(1);
+      expect(result.clampedToMin).toBe(true);
+      expect(result.overflowing).toBe(true);
+    });
+
+    it('should report a single line in single line mode', () => {
+      const element = createElementWithScale(0.5, 0.5);
+
+      expect(calculateFitResult(element, 220, 220, 10, 100, 0.5, 'both', 'single').lines).toBe(1);
+    });
+
+    it('should flag overflow when the text does not fit at minFontSize', () => {
+      const element = createElementWithScale(4, 4);
+
+      const result = calculateFitResult(element, 5, 5, 10, 100, 0.5, 'both');
+
+      expect(result.fontSize).toBe(10);
+      expect(result.clampedToMin).toBe(true);
+      expect(result.overflowing).toBe(true);
+    });
+  });
+
+  describe('canvas measurement', () => {
+    const measureText = vi.fn((text: string) => ({ width: text.length * 50 }) as TextMetrics);
+    let element: HTMLElement;
+
+    beforeEach(() => {
+      measureText.mockClear();
+      vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(
+        { font: '', measureText } as unknown as CanvasRenderingContext2D
+      );
+      element = document.createElement('div');
+      element.style.fontSize = '10px';
+      element.style.lineHeight = '12px';
+      document.body.appendChild(element);
+    });
+
+    afterEach(() => {
+      element.remove();
+    });
+
+    it('should search single-line sizes with one canvas measurement', () => {
+      element.textContent = 'Canvas';
+      const cloneNode = vi.spyOn(element, 'cloneNode');
+
+      const result = calculateFitResult(element, 150, 200, 10, 100, 0.5, 'width', 'single');
+
+      expect(cloneNode).not.toHaveBeenCalled();
+      expect(measureText).toHaveBeenCalledTimes(1);
+      // Six characters at 3px per px of font size fit 150px up to 50px.
+      expect(result.fontSize).toBeGreaterThan(49);
+      expect(result.fontSize).toBeLessThanOrEqual(50);
+      expect(result.contentWidth).toBeCloseTo(result.fontSize * 3);
+      expect(result.contentHeight).toBeCloseTo(result.fontSize * 1.2);
+      expect(result.lines).toBe(1);
+      expect(result.overflowing).toBe(false);
+    });
+
+    it('should account for text-transform and spacing', () => {
+      element.textContent = 'two  words';
+      element.style.textTransform = 'uppercase';
+      element.style.letterSpacing = '1px';
+      element.style.wordSpacing = '4px';
+      const font = getMeasurerFont(window.getComputedStyle(element));
+
+      const measured = createCanvasMeasurer(element).measure('two  words', font, 20, 200, 'single');
+
+      expect(measureText).toHaveBeenCalledWith('TWO WORDS');
+      // 9 characters at 0.5px per px of font size, plus 9px letter- and 4px word-spacing.
+      expect(measured.width).toBe(9 * 0.5 * 20 + 13);
+    });
+
+    it('should take line-height normal from the font bounding box', () => {
+      element.textContent = 'Canvas';
+      element.style.lineHeight = 'normal';
+      measureText.mockImplementationOnce((text: string) => (
+        { width: text.length * 50, fontBoundingBoxAscent: 110, fontBoundingBoxDescent: 35 }
+      ) as TextMetrics);
+      const font = getMeasurerFont(window.getComputedStyle(element));
+
+      expect(createCanvasMeasurer(element).measure('Canvas', font, 20, 200, 'single').height).toBeCloseTo(29);
+    });
+
+    it('should leave line-height normal to the DOM clone without font metrics', () => {
+      element.textContent = 'Canvas';
+      element.style.lineHeight = 'normal';
+      const cloneNode = vi.spyOn(element, 'cloneNode');
+
+      calculateFitResult(element, 150, 20, 1, 100, 0.5, 'both', 'single');
+
+      expect(measureText).toHaveBeenCalled();
+      expect(cloneNode).toHaveBeenCalled();
+    });
+
+    it('should fall back to the DOM clone for nested markup', () => {
+      element.innerHTML = 'Nested <strong>markup</strong>';
+      const cloneNode = vi.spyOn(element, 'cloneNode');
+
+      calculateFitResult(element, 150, 200, 10, 100, 0.5, 'width', 'single');
+
+      expect(cloneNode).toHaveBeenCalled();
+      expect(measureText).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('measurers', () => {
+    // A fake layout engine: every character is half the font size wide and wraps at maxWidth.
+    const createFakeMeasurer = (): Measurer & { measure: Mock; release: Mock } => ({
+      measure: vi.fn((text: string, _font: MeasurerFont, fontSize: number, maxWidth: number, lineMode: LineMode) => {
+        const width = text.length * fontSize * 0.5;
+        const lines = lineMode === 'single' ? 1 : Math.max(1, Math.ceil(width / maxWidth));
+        return { width: lineMode === 'single' ? width : Math.min(width, maxWidth), height: lines * fontSize, lines };
+      }),
+      release: vi.fn(),
+    });
+
+    it('should search sizes with a custom measurer and release it afterwards', () => {
+      const element = document.createElement('div');
+      element.textContent = 'Measured elsewhere';
+      const cloneNode = vi.spyOn(element, 'cloneNode');
+      const measurer = createFakeMeasurer();
+
+      const result = calculateFitResult(element, 90, 500, 1, 100, 0.5, 'width', 'single', true, { measurer });
+
+      expect(cloneNode).not.toHaveBeenCalled();
+      expect(measurer.measure).toHaveBeenCalledWith('Measured elsewhere', expect.objectContaining({ lineHeight: null }), expect.any(Number), 90, 'single');
+      expect(measurer.release).toHaveBeenCalledTimes(1);
+      // 18 characters at half the font size each must fit in 90px.
+      expect(result.fontSize).toBeCloseTo(10, 0);
+      expect(result.overflowing).toBe(false);
+    });
+
+    it('should count lines reported by the measurer against maxLines', () => {
+      const element = document.createElement('div');
+      element.textContent = 'Twenty characters!!!';
+      const measurer = createFakeMeasurer();
+
+      const result = calculateFitResult(element, 100, 1000, 1, 100, 0.5, 'both', 'multi', true, { measurer, maxLines: 2 });
+
+      expect(result.lines).toBeLessThanOrEqual(2);
+      expect(result.fontSize).toBeCloseTo(20, 0);
+    });
+
+    it('should measure plain text with a DOM measurer created without a source', () => {
+      const measurer = createDomMeasurer();
+      const font = {
+        family: 'serif', weight: '400', style: 'normal', variant: 'normal',
+        letterSpacing: 'normal', wordSpacing: '0px', textTransform: 'none', lineHeight: 1.5,
+        writingMode: 'horizontal-tb', direction: 'ltr',
+      };
+      const host = () => document.body.lastElementChild as HTMLElement;
+
+      measurer.measure('Plain text', font, 20, 200, 'multi');
+      const clone = host().lastElementChild as HTMLElement;
+      expect(clone.textContent).toBe('Plain text');
+      expect(clone.style.fontSize).toBe('20px');
+      expect(clone.style.lineHeight).toBe('1.5');
+
+      measurer.measure('Plain text', font, 24, 200, 'multi');
+      expect(host().lastElementChild).toBe(clone);
+      expect(clone.style.fontSize).toBe('24px');
+
+      measurer.release?.();
+      expect(clone.isConnected).toBe(false);
+    });
+
+    it('should count the rendered line boxes rather than estimate them from the line-height', () => {
+      const element = document.createElement('div');
+      element.textContent = 'Three lines of text';
+      const clone = document.createElement('div');
+      clone.textContent = element.textContent;
+      // Three 29px lines (a line-height of 1.45 at 20px), which `normal` estimates as 87 / 24 = 4.
+      Object.defineProperty(clone, 'scrollHeight', { get: () => 87, configurable: true });
+      vi.spyOn(element, 'cloneNode').mockReturnValue(clone);
+      const fragment = (top: number, bottom: number) => ({ top, bottom, left: 0, right: 100, width: 100, height: bottom - top });
+      // The second line holds a larger nested element that overlaps it across the block axis.
+      const rects = [fragment(3, 26), fragment(26, 58), fragment(32, 55), fragment(61, 84)];
+      vi.spyOn(document, 'createRange').mockReturnValue(
+        { selectNodeContents: vi.fn(), getClientRects: () => rects } as unknown as Range
+      );
+
+      const font = { ...getMeasurerFont(window.getComputedStyle(element)), lineHeight: null };
+      const measured = createDomMeasurer(element).measure('Three lines of text', font, 20, 100, 'multi');
+
+      expect(measured.lines).toBe(3);
+    });
+
+    it('should read nested font sizes relative to their parents at the reference size', () => {
+      const element = document.createElement('div');
+      element.innerHTML = '$<big style="font-size: 40px">42<sub style="font-size: 0.5em">x</sub></big>/mo';
+      document.body.appendChild(element);
+
+      expect(getNestedFontScales(element, 20)).toEqual([2, 0.5]);
+      expect(document.body.contains(element.querySelector('big'))).toBe(true);
+      expect(document.body.querySelectorAll('big')).toHaveLength(1);
+
+      element.remove();
+    });
+
+    it('should scale the clone\'s descendants with its root', () => {
+      const element = document.createElement('div');
+      element.innerHTML = 'per <small style="font-size: 8px">month</small>';
+      const measurer = createDomMeasurer(element, [0.5]);
+      const font = getMeasurerFont(window.getComputedStyle(element));
+
+      measurer.measure('per month', font, 30, 200, 'multi');
+
+      const clone = document.body.lastElementChild?.lastElementChild as HTMLElement;
+      expect((clone.querySelector('small') as HTMLElement).style.fontSize).toBe('0.5em');
+      expect(element.querySelector('small')?.style.fontSize).toBe('8px');
+
+      measurer.release?.();
+    });
+
+    it('should measure clones of shadow DOM content inside the same shadow root', () => {
+      const shadowHost = document.createElement('div');
+      document.body.appendChild(shadowHost);
+      const root = shadowHost.attachShadow({ mode: 'open' });
+      const element = document.createElement('span');
+      element.textContent = 'Scoped';
+      root.appendChild(element);
+      const measurer = createDomMeasurer(element);
+
+      measurer.measure('Scoped', getMeasurerFont(window.getComputedStyle(element)), 20, 200, 'multi');
+
+      const clone = root.lastElementChild?.lastElementChild as HTMLElement;
+      expect(clone.textContent).toBe('Scoped');
+      expect(clone.getRootNode()).toBe(root);
+
+      measurer.release?.();
+      shadowHost.remove();
+    });
+  });
+
+  describe('calculateTransformFitResult', () => {
+    function createBlock(naturalWidth: number, naturalHeight: number) {
+      const element = document.createElement('div');
+      element.style.fontSize = '20px';
+      document.body.appendChild(element);
+      const clone = document.createElement('div');
+      Object.defineProperty(clone, 'scrollWidth', { get: () => naturalWidth, configurable: true });
+      Object.defineProperty(clone, 'scrollHeight', { get: () => naturalHeight, configurable: true });
+      vi.spyOn(element, 'cloneNode').mockReturnValue(clone);
+      return element;
+    }
+
+    it('should scale uniformly by the tighter axis in both mode', () => {
+      const element = createBlock(400, 50);
+
+      const result = calculateTransformFitResult(element, 200, 100, 1, 100, 'both', 'single');
+
+      expect(result.scale).toEqual({ x: 0.5, y: 0.5 });
+      expect(result.fontSize).toBe(10);
+      expect(result.contentWidth).toBe(200);
+      expect(result.overflowing).toBe(false);
+      element.remove();
+    });
+
+    it('should scale each axis independently without preserveAspectRatio', () => {
+      const element = createBlock(400, 50);
+
+      const result = calculateTransformFitResult(element, 200, 100, 1, 100, 'both', 'single', false);
+
+      expect(result.scale).toEqual({ x: 0.5, y: 2 });
+      element.remove();
+    });
+
+    it('should bound the scale by minFontSize and report overflow', () => {
+      const element = createBlock(400, 50);
+
+      const result = calculateTransformFitResult(element, 20, 100, 10, 100, 'width', 'single');
+
+      expect(result.scale).toEqual({ x: 0.5, y: 0.5 });
+      expect(result.clampedToMin).toBe(true);
+      expect(result.overflowing).toBe(true);
+      element.remove();
+    });
+
+    describe('wrapped text', () => {
+      // A fake layout engine for text that is naturalWidth long at 20px and wraps into 24px lines.
+      const createWrappingMeasurer = (naturalWidth: number): Measurer => ({
+        measure: (_text, _font, _fontSize, maxWidth) => {
+          const lines = Math.ceil(naturalWidth / maxWidth);
+          return { width: Math.min(naturalWidth, maxWidth), height: lines * 24, lines };
+        },
+      });
+
+      it('should grow short text and rewrap it at the line length that spans the container', () => {
+        const element = createBlock(0, 0);
+
+        const result = calculateTransformFitResult(element, 200, 100, 1, 100, 'both', 'multi', true, createWrappingMeasurer(400));
+
+        // Three lines of 24px fit 100px up to a scale of 100 / 72.
+        expect(result.scale?.x).toBeGreaterThan(100 / 72 - 0.5 / 20);
+        expect(result.scale?.x).toBeLessThanOrEqual(100 / 72);
+        expect(result.wrapSize).toBeCloseTo(200 / (result.scale?.x ?? 1));
+        expect(result.lines).toBe(3);
+        expect(result.overflowing).toBe(false);
+        element.remove();
+      });
+
+      it('should shrink long text without leaving unused width', () => {
+        const element = createBlock(0, 0);
+
+        const result = calculateTransformFitResult(element, 200, 100, 1, 100, 'both', 'multi', true, createWrappingMeasurer(4000));
+
+        expect(result.scale?.x).toBeLessThan(1);
+        expect(result.contentWidth).toBeCloseTo(200);
+        expect(result.contentHeight).toBeLessThanOrEqual(100);
+        expect(result.overflowing).toBe(false);
+        element.remove();
+      });
+
+      it('should scale up to maxFontSize when only the width is fitted', () => {
+        const element = createBlock(0, 0);
+
+        const result = calculateTransformFitResult(element, 200, 100, 1, 60, 'width', 'multi', true, createWrappingMeasurer(400));
+
+        expect(result.scale).toEqual({ x: 3, y: 3 });
+        expect(result.fontSize).toBe(60);
+        expect(result.wrapSize).toBeCloseTo(200 / 3);
+        element.remove();
+      });
+    });
+  });
+
+  describe('writing modes', () => {
+    const createVertical = (text: string) => {
+      const element = document.createElement('div');
+      element.textContent = text;
+      element.style.writingMode = 'vertical-rl';
+      element.style.fontSize = '20px';
+      document.body.appendChild(element);
+      return element;
+    };
+
+    it('should wrap vertical text at the container height and fit width to the line length', () => {
+      const element = createVertical('縦書きの看板');
+      // Every character is one font size long along the line.
+      const measurer: Measurer = {
+        measure: vi.fn((text: string, _font: MeasurerFont, fontSize: number) => (
+          { width: text.length * fontSize, height: fontSize, lines: 1 }
+        )),
+      };
+
+      const result = calculateFitResult(element, 50, 120, 1, 100, 0.5, 'width', 'single', true, { measurer });
+
+      expect(measurer.measure).toHaveBeenCalledWith('縦書きの看板', expect.objectContaining({ writingMode: 'vertical-rl' }), expect.any(Number), 120, 'single');
+      // Six characters along a 120px tall line.
+      expect(result.fontSize).toBeGreaterThan(19);
+      expect(result.fontSize).toBeLessThanOrEqual(20);
+      expect(result.contentWidth).toBe(result.fontSize);
+      expect(result.contentHeight).toBe(result.fontSize * 6);
+      element.remove();
+    });
+
+    it('should read the inline size of vertical clones from their height', () => {
+      const element = createVertical('縦書き');
+      const clone = document.createElement('div');
+      Object.defineProperty(clone, 'scrollWidth', { get: () => 30, configurable: true });
+      Object.defineProperty(clone, 'scrollHeight', { get: () => 90, configurable: true });
+      vi.spyOn(element, 'cloneNode').mockReturnValue(clone);
+
+      const measured = createDomMeasurer(element).measure(
+        '縦書き', getMeasurerFont(window.getComputedStyle(element)), 30, 200, 'single'
+      );
+
+      expect(measured).toEqual({ width: 90, height: 30, lines: 1 });
+      expect(clone.style.writingMode).toBe('vertical-rl');
+      element.remove();
+    });
+
+    it('should map transform scale factors back to physical axes', () => {
+      const element = createVertical('縦書き');
+      const measurer: Measurer = { measure: () => ({ width: 400, height: 50, lines: 1 }) };
+
+      const result = calculateTransformFitResult(element, 100, 200, 1, 100, 'both', 'single', false, measurer);
+
+      expect(result.scale).toEqual({ x: 2, y: 0.5 });
+      expect(result.contentWidth).toBe(100);
+      expect(result.contentHeight).toBe(200);
+      element.remove();
+    });
+  });
+
   describe('getAvailableContentSpace', () => {
     let mockElement: HTMLElement;
 
@@ -319,6 +835,96 @@ describe('Utils', () => {
     });
   });
 
+  describe('whole words', () => {
+    // A clone of a short line of text whose longest word is ten font sizes wide: it only sticks
+    // out of the 100px line when words may not break.
+    const createLongWordElement = (text: string) => {
+      const element = document.createElement('div');
+      element.textContent = text;
+      const clone = document.createElement('div');
+      clone.textContent = text;
+      const fontSize = () => parseFloat(clone.style.fontSize) || 16;
+      Object.defineProperty(clone, 'scrollWidth', {
+        get: () => (clone.style.overflowWrap === 'normal' ? Math.max(100, fontSize() * 10) : 100),
+        configurable: true,
+      });
+      Object.defineProperty(clone, 'scrollHeight', { get: () => fontSize() * 2.4, configurable: true });
+      vi.spyOn(element, 'cloneNode').mockReturnValue(clone);
+      return { element, clone };
+    };
+
+    it('should keep the longest word on one line even when fitting the height', () => {
+      const { element } = createLongWordElement('Internationalization rocks');
+
+      const broken = calculateFitResult(element, 100, 1000, 1, 40, 0.5, 'height');
+      const whole = calculateFitResult(element, 100, 1000, 1, 40, 0.5, 'height', 'multi', false, { breakWords: false });
+
+      expect(broken.fontSize).toBe(40);
+      expect(whole.fontSize).toBeGreaterThan(9);
+      expect(whole.fontSize).toBeLessThanOrEqual(10);
+      expect(whole.overflowing).toBe(false);
+    });
+
+    it('should report the word that still sticks out at minFontSize as overflowing', () => {
+      const { element } = createLongWordElement('Internationalization');
+
+      const result = calculateFitResult(element, 100, 1000, 20, 40, 0.5, 'height', 'multi', true, { breakWords: false });
+
+      expect(result.fontSize).toBe(20);
+      expect(result.contentWidth).toBe(200);
+      expect(result.overflowing).toBe(true);
+    });
+
+    it('should hyphenate the clone in the language of the text', () => {
+      const wrapper = document.createElement('div');
+      wrapper.lang = 'de';
+      const { element, clone } = createLongWordElement('Silbentrennung');
+      wrapper.appendChild(element);
+      document.body.appendChild(wrapper);
+
+      calculateFitResult(element, 100, 1000, 1, 40, 0.5, 'height', 'multi', true, { breakWords: false, hyphenate: true });
+
+      expect(clone.lang).toBe('de');
+      expect(clone.style.getPropertyValue('hyphens')).toBe('auto');
+      wrapper.remove();
+    });
+  });
+
+  describe('applyLineModeStyles', () => {
+    it('should only set the properties single line mode needs', () => {
+      const element = document.createElement('div');
+      element.style.wordBreak = 'break-all';
+
+      applyLineModeStyles(element, 'single');
+
+      expect(element.style.whiteSpace).toBe('nowrap');
+      expect(element.style.overflow).toBe('');
+      expect(element.style.textOverflow).toBe('');
+      expect(element.style.wordBreak).toBe('break-all');
+    });
+
+    it('should leave overflow untouched in multi line mode', () => {
+      const element = document.createElement('div');
+      element.style.overflow = 'hidden';
+
+      applyLineModeStyles(element, 'multi');
+
+      expect(element.style.whiteSpace).toBe('normal');
+      expect(element.style.overflowWrap).toBe('break-word');
+      expect(element.style.overflow).toBe('hidden');
+    });
+
+    it('should stop words from breaking without breakWords', () => {
+      const element = document.createElement('div');
+
+      applyLineModeStyles(element, 'multi', { breakWords: false, hyphenate: true });
+
+      expect(element.style.overflowWrap).toBe('normal');
+      expect(element.style.wordBreak).toBe('normal');
+      expect(element.style.getPropertyValue('hyphens')).toBe('auto');
+    });
+  });
+
   describe('sizeFits', () => {
     it('should return true when text fits in both dimensions', () => {
       const result = sizeFits({ width: 50, height: 30 }, 100, 50, 'both');
@@ -355,4 +961,44 @@ describe('Utils', () => {
       expect(result).toBe(false);
     });
   });
+
+  describe('font loading', () => {
+    afterEach(() => {
+      delete (document as unknown as { fonts?: unknown }).fonts;
+    });
+
+    it('should match font families regardless of quotes and case', () => {
+      const element = document.createElement('div');
+      element.style.fontFamily = '"Inter Display", sans-serif';
+      document.body.appendChild(element);
+
+      expect(elementUsesFontFamily(element, ['inter display'])).toBe(true);
+      expect(elementUsesFontFamily(element, ['Roboto'])).toBe(false);
+
+      element.remove();
+    });
+
+    it('should report loaded families from loadingdone events', () => {
+      const fonts = Object.assign(new EventTarget(), { status: 'loaded' });
+      Object.defineProperty(document, 'fonts', { value: fonts, configurable: true });
+      const listener = vi.fn();
+
+      const unsubscribe = subscribeToFontLoads(listener);
+      fonts.dispatchEvent(Object.assign(new Event('loadingdone'), { fontfaces: [{ family: 'Inter' }] }));
+
+      expect(listener).toHaveBeenCalledWith(['Inter']);
+
+      unsubscribe();
+      fonts.dispatchEvent(Object.assign(new Event('loadingdone'), { fontfaces: [{ family: 'Inter' }] }));
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should be a no-op without the CSS Font Loading API', () => {
+      const listener = vi.fn();
+
+      expect(() => subscribeToFontLoads(listener)()).not.toThrow();
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
 });
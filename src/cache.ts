@@ -0,0 +1,219 @@
+import {
+  FitResult,
+  FitTextCache,
+  LruCacheOptions,
+  PersistentCacheOptions,
+  PersistentFitTextCache
+} from './types';
+
+interface LruEntry {
+  result: FitResult;
+  timestamp: number;
+}
+
+// Bumped whenever the serialized layout changes, independently of the caller's version.
+const STORAGE_FORMAT = 1;
+
+interface StoredCache {
+  format: number;
+  version: string | number;
+  entries: Array<[string, FitResult, number]>;
+}
+
+// Flushes of persistent caches whose debounced write hasn't run yet. A single pagehide
+// listener serves every cache, and a cache is only held here while it has a write pending.
+const pendingWrites = new Set<() => Promise<void>>();
+let listeningForPageHide = false;
+
+const flushBeforePageHide = (flush: () => Promise<void>): void => {
+  pendingWrites.add(flush);
+  if (!listeningForPageHide && typeof window !== 'undefined') {
+    listeningForPageHide = true;
+    window.addEventListener('pagehide', () => {
+      pendingWrites.forEach(pending => pending());
+    });
+  }
+};
+
+// Map iteration follows insertion order, so re-inserting on every hit keeps the least
+// recently used entry first. The map is returned too, for the persistent cache to serialize.
+const createLruEntries = (
+  maxEntries: number,
+  ttl: number,
+  onChange: () => void = () => {}
+): { cache: FitTextCache; entries: Map<string, LruEntry> } => {
+  const entries = new Map<string, LruEntry>();
+
+  const cache: FitTextCache = {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return undefined;
+      }
+
+      entries.delete(key);
+      if (Date.now() - entry.timestamp >= ttl) {
+        onChange();
+        return undefined;
+      }
+
+      entries.set(key, entry);
+      return entry.result;
+    },
+    set(key, result) {
+      entries.delete(key);
+      entries.set(key, { result, timestamp: Date.now() });
+
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+      onChange();
+    },
+    delete(key) {
+      if (entries.delete(key)) {
+        onChange();
+      }
+    },
+    clear() {
+      entries.clear();
+      onChange();
+    },
+  };
+
+  return { cache, entries };
+};
+
+/**
+ * Bounded cache that evicts the least recently used entry once maxEntries is reached and
+ * treats entries older than ttl as misses.
+ */
+export const createLruCache = ({ maxEntries = 500, ttl = 30000 }: LruCacheOptions = {}): FitTextCache =>
+  createLruEntries(maxEntries, ttl).cache;
+
+/**
+ * LRU cache mirrored to a key-value storage, so results measured on one page load are reused
+ * on the next. Entries live in memory and are written back in one batch after writeDelay;
+ * persisted entries are loaded when the cache is created. Entries from a different version
+ * are discarded, and results measured with other fonts never match since the loaded font
+ * faces are part of every key.
+ */
+export const createPersistentCache = ({
+  storage,
+  storageKey = 'react-use-fittext',
+  version = 1,
+  maxEntries = 500,
+  ttl = 7 * 24 * 60 * 60 * 1000,
+  writeDelay = 1000
+}: PersistentCacheOptions): PersistentFitTextCache => {
+  let writeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = (): Promise<void> => {
+    pendingWrites.delete(flush);
+    if (writeTimer) {
+      clearTimeout(writeTimer);
+      writeTimer = null;
+    }
+
+    const stored: StoredCache = {
+      format: STORAGE_FORMAT,
+      version,
+      entries: [...entries].map(([key, entry]) => [key, entry.result, entry.timestamp]),
+    };
+
+    // Quota errors and unavailable storage only cost the next load its head start.
+    return Promise.resolve()
+      .then(() => storage.setItem(storageKey, JSON.stringify(stored)))
+      .catch(() => undefined);
+  };
+
+  const scheduleWrite = () => {
+    if (!writeTimer) {
+      writeTimer = setTimeout(flush, writeDelay);
+      // The debounced write may not get to run before the page goes away.
+      flushBeforePageHide(flush);
+    }
+  };
+
+  const { cache, entries } = createLruEntries(maxEntries, ttl, scheduleWrite);
+
+  const hydrate = (serialized: string | null | undefined) => {
+    if (!serialized) {
+      return;
+    }
+
+    try {
+      const stored = JSON.parse(serialized) as StoredCache;
+      if (stored.format !== STORAGE_FORMAT || stored.version !== version) {
+        return;
+      }
+
+      // Persisted entries are older than anything measured while an async load was pending.
+      const measured = [...entries];
+      entries.clear();
+      const now = Date.now();
+      stored.entries.forEach(([key, result, timestamp]) => {
+        if (now - timestamp < ttl) {
+          entries.set(key, { result, timestamp });
+        }
+      });
+      measured.forEach(([key, entry]) => {
+        entries.delete(key);
+        entries.set(key, entry);
+      });
+
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    } catch {
+      // Corrupt or foreign data; start empty and overwrite it on the next write.
+    }
+  };
+
+  let ready: Promise<void>;
+  try {
+    const serialized = storage.getItem(storageKey);
+    if (serialized && typeof serialized === 'object' && 'then' in serialized) {
+      ready = Promise.resolve(serialized).then(hydrate, () => undefined);
+    } else {
+      hydrate(serialized);
+      ready = Promise.resolve();
+    }
+  } catch {
+    ready = Promise.resolve();
+  }
+
+  return { ...cache, ready, flush };
+};
+
+/** Cache that stores nothing, so every fit is measured. */
+export const noopCache: FitTextCache = {
+  get: () => undefined,
+  set: () => {},
+  delete: () => {},
+  clear: () => {},
+};
+
+/** Shared by every instance that isn't given a cache of its own. */
+export const defaultCache = createLruCache();
+
+/** Empties the shared default cache. Caches passed through options are left alone. */
+export const clearFitTextCache = (): void => {
+  defaultCache.clear();
+};
+
+/** 53-bit string hash (cyrb53), so cache keys stay short however long the text is. */
+export const hashText = (text: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
@@ -0,0 +1,580 @@
+import {
+  FitResult,
+  FitStatus,
+  FitTextController,
+  FitTextListener,
+  FitTextState,
+  UseFitTextOptions
+} from './types';
+import {
+  MANAGED_CONTAINER_PROPERTIES,
+  MANAGED_TEXT_PROPERTIES,
+  StyleSnapshot,
+  applyFontSize,
+  applyNestedScales,
+  applyOverflow,
+  applyScale,
+  restoreStyles,
+  snapshotStyles
+} from './output';
+import { getNestedFontScales } from './measurer';
+import { ObservedSize, observeResize } from './observer';
+import { scheduleFit } from './scheduler';
+import {
+  applyLineModeStyles,
+  areFontsLoaded,
+  calculateFitResult,
+  calculateTransformFitResult,
+  elementUsesFontFamily,
+  getAvailableContentSpace,
+  loadFonts,
+  subscribeToFontLoads
+} from './utils';
+
+const resolveOptions = ({
+  minFontSize = 1,
+  maxFontSize = 100,
+  resolution = 0.5,
+  fitMode = 'both',
+  lineMode = 'multi',
+  debounceDelay = 100,
+  maxLines,
+  minLines,
+  breakWords = true,
+  hyphenate = false,
+  allowedSizes,
+  strategy = 'fontSize',
+  preserveAspectRatio = true,
+  output = 'inline',
+  cssVariableTarget = 'container',
+  applyLineStyles = true,
+  overflow = 'visible',
+  enabled = true,
+  restoreOnDisable = false,
+  refitOnFontLoad = true,
+  waitForFonts = false,
+  hideUntilFitted = false,
+  scaleNested = false,
+  cache,
+  measurer,
+  onFit,
+  onOverflow
+}: UseFitTextOptions) => ({
+  minFontSize,
+  maxFontSize,
+  resolution,
+  fitMode,
+  lineMode,
+  debounceDelay,
+  maxLines,
+  minLines,
+  breakWords,
+  hyphenate,
+  allowedSizes,
+  // Compare the type scale by value so a new array with the same sizes doesn't refit.
+  allowedSizesKey: allowedSizes?.join(','),
+  strategy,
+  preserveAspectRatio,
+  output,
+  cssVariableTarget,
+  applyLineStyles,
+  overflow,
+  enabled,
+  // With restoreOnDisable, disabling counts as letting go of the elements.
+  ownsStyles: enabled || !restoreOnDisable,
+  refitOnFontLoad,
+  waitForFonts,
+  hideUntilFitted,
+  scaleNested,
+  cache,
+  measurer,
+  onFit,
+  onOverflow
+});
+
+type ResolvedOptions = ReturnType<typeof resolveOptions>;
+
+// Options that change which inline properties are written: the elements get their original
+// styles back before the fitted styles are reapplied for the new options.
+const STYLE_OPTIONS: Array<keyof ResolvedOptions> = [
+  'lineMode', 'breakWords', 'hyphenate', 'applyLineStyles', 'strategy', 'output', 'cssVariableTarget', 'scaleNested',
+  'ownsStyles'
+];
+
+// Options that change the fitted result or how it is written, so the next fit starts from scratch.
+const FIT_OPTIONS: Array<keyof ResolvedOptions> = [
+  'minFontSize', 'maxFontSize', 'resolution', 'fitMode', 'lineMode', 'maxLines', 'minLines', 'breakWords', 'hyphenate',
+  'allowedSizesKey', 'strategy', 'preserveAspectRatio', 'output', 'cssVariableTarget', 'applyLineStyles', 'overflow',
+  'scaleNested', 'enabled', 'cache', 'measurer'
+];
+
+/**
+ * Fits the text element into the container without React: observes both elements, debounces
+ * and batches refits, and writes the fitted size. The first fit lands before paint, batched
+ * with every other instance created in the same task. Listeners are called with the new state
+ * after every change; destroy() lets go of the elements and restores their inline styles.
+ */
+export const createFitText = (
+  container: HTMLElement,
+  text: HTMLElement,
+  initialOptions: UseFitTextOptions = {}
+): FitTextController => {
+  let rawOptions = initialOptions;
+  let options = resolveOptions(initialOptions);
+  let state: FitTextState = {
+    fontSize: options.maxFontSize,
+    overflowing: false,
+    status: 'idle',
+    isReady: false,
+    result: null,
+  };
+  const listeners = new Set<FitTextListener>();
+  let destroyed = false;
+
+  let unobserveResize: (() => void) | null = null;
+  let mutationObserver: MutationObserver | null = null;
+  let unsubscribeFontLoads: (() => void) | null = null;
+  let cancelFontWait: (() => void) | null = null;
+  let cancelScheduledFit: (() => void) | null = null;
+  let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+
+  let calculating = false;
+  let prevDimensions: { width: number; height: number } | null = null;
+  let prevTextContent: string | null = null;
+  let initialCalcDone = false;
+  // Size last written to the text element's inline style; null until the first fit.
+  let appliedFontSize: number | null = null;
+  // Outcome of the last completed fit, restored once a scheduled refit settles.
+  let settledStatus: FitStatus = 'idle';
+  // Content box from the latest shared ResizeObserver entry; null until the first one arrives.
+  let observedSize: ObservedSize | null = null;
+  let fontsPending = false;
+  // Set by reset() until the next fit: the text is back in its original styles, so it isn't
+  // hidden again waiting for a fit nothing has asked for.
+  let wasReset = false;
+  // Inline styles the elements had before the controller touched them.
+  let textSnapshot: StyleSnapshot | null = null;
+  let containerSnapshot: StyleSnapshot | null = null;
+  // The text's own visibility while the controller keeps it hidden.
+  let hiddenVisibility: string | null = null;
+  // Puts back what the overflow mode wrote for the last fit; null while the text fits.
+  let undoOverflow: (() => void) | null = null;
+  // With scaleNested: the text's font size before the first fit, the descendant scales read
+  // for the last measurement, and a function putting back the descendants' own sizes.
+  let referenceFontSize: number | null = null;
+  let nestedScales: number[] | undefined;
+  let undoNestedScales: (() => void) | null = null;
+
+  const getState = (): FitTextState => ({
+    ...state,
+    status: fontsPending ? 'measuring' : state.status,
+    isReady: state.isReady && !fontsPending,
+  });
+
+  const updateVisibility = () => {
+    const hidden = !destroyed && (fontsPending || (options.hideUntilFitted && !state.isReady && !wasReset));
+
+    if (hidden && hiddenVisibility === null) {
+      hiddenVisibility = text.style.visibility;
+      text.style.visibility = 'hidden';
+    } else if (!hidden && hiddenVisibility !== null) {
+      text.style.visibility = hiddenVisibility;
+      hiddenVisibility = null;
+    }
+  };
+
+  const setState = (changes: Partial<FitTextState>) => {
+    const previous = getState();
+    state = { ...state, ...changes };
+    updateVisibility();
+
+    const next = getState();
+    const changed = (Object.keys(next) as Array<keyof FitTextState>).some(key => next[key] !== previous[key]);
+    if (changed) {
+      listeners.forEach(listener => listener(next));
+    }
+  };
+
+  // Read phase: everything up to and including the clone measurements. Returns null when the
+  // guard decides nothing changed.
+  const measureFit = (force: boolean = false, bypassCache: boolean = false): FitResult | null => {
+    if (destroyed || !options.enabled || calculating) {
+      return null;
+    }
+
+    const currentTextContent = text.textContent || '';
+    const availableSpace = observedSize ?? getAvailableContentSpace(container);
+
+    if (availableSpace.width <= 0 || availableSpace.height <= 0) {
+      return null;
+    }
+
+    if (
+      !force &&
+      initialCalcDone &&
+      prevDimensions &&
+      prevDimensions.width === availableSpace.width &&
+      prevDimensions.height === availableSpace.height &&
+      prevTextContent === currentTextContent
+    ) {
+      return null;
+    }
+
+    calculating = true;
+    prevDimensions = { ...availableSpace };
+    prevTextContent = currentTextContent;
+
+    // The transform strategy scales nested content along with the text already.
+    nestedScales = undefined;
+    if (options.scaleNested && options.strategy !== 'transform' && text.firstElementChild) {
+      referenceFontSize ??= parseFloat(window.getComputedStyle(text).fontSize) || 16;
+      nestedScales = getNestedFontScales(text, referenceFontSize);
+    }
+
+    try {
+      return options.strategy === 'transform'
+        ? calculateTransformFitResult(
+          text,
+          availableSpace.width,
+          availableSpace.height,
+          options.minFontSize,
+          options.maxFontSize,
+          options.fitMode,
+          options.lineMode,
+          options.preserveAspectRatio,
+          options.measurer
+        )
+        : calculateFitResult(
+          text,
+          availableSpace.width,
+          availableSpace.height,
+          options.minFontSize,
+          options.maxFontSize,
+          options.resolution,
+          options.fitMode,
+          options.lineMode,
+          bypassCache,
+          {
+            maxLines: options.maxLines,
+            minLines: options.minLines,
+            allowedSizes: options.allowedSizes,
+            cache: options.cache,
+            measurer: options.measurer,
+            nestedScales,
+            breakWords: options.breakWords,
+            hyphenate: options.hyphenate,
+          }
+        );
+    } finally {
+      calculating = false;
+    }
+  };
+
+  // Write phase: styles, state and callbacks for a measured result.
+  const applyFit = (result: FitResult) => {
+    // A listener of another instance in the same flush may have destroyed this one.
+    if (destroyed) {
+      return;
+    }
+
+    undoOverflow?.();
+    undoOverflow = null;
+    undoNestedScales?.();
+    undoNestedScales = nestedScales ? applyNestedScales(text, nestedScales) : null;
+
+    // The clone carries its own line styles, so these can wait until after measuring.
+    if (options.applyLineStyles) {
+      applyLineModeStyles(text, options.lineMode, { breakWords: options.breakWords, hyphenate: options.hyphenate });
+    }
+
+    // Scale factors can change on one axis while the effective size stays the same.
+    if (result.scale) {
+      applyScale(container, text, result.scale, options.output, options.cssVariableTarget, result.wrapSize);
+    }
+
+    if (result.fontSize !== appliedFontSize) {
+      if (!result.scale) {
+        applyFontSize(container, text, result.fontSize, options.output, options.cssVariableTarget);
+      }
+      appliedFontSize = result.fontSize;
+    }
+
+    if (result.overflowing && options.overflow !== 'visible') {
+      undoOverflow = applyOverflow(container, text, result, options.overflow, options.lineMode, options.maxLines);
+    }
+
+    initialCalcDone = true;
+    wasReset = false;
+    settledStatus = result.overflowing ? 'overflow' : 'fitted';
+    setState({
+      fontSize: result.fontSize,
+      overflowing: result.overflowing,
+      status: settledStatus,
+      isReady: true,
+      result,
+    });
+
+    if (result.overflowing) {
+      options.onOverflow?.(result);
+    } else {
+      options.onFit?.(result);
+    }
+  };
+
+  // Synchronous fit, used where the result must land before returning. Supersedes a
+  // scheduled one.
+  const calculateFontSize = (force: boolean = false, bypassCache: boolean = false) => {
+    cancelScheduledFit?.();
+    cancelScheduledFit = null;
+    const result = measureFit(force, bypassCache);
+    if (result) {
+      applyFit(result);
+    }
+  };
+
+  // Batched fit: joins every other pending instance in the scheduler's next read/write flush,
+  // or the one before paint.
+  const scheduleFontSize = (force: boolean = false, bypassCache: boolean = false, beforePaint: boolean = false) => {
+    cancelScheduledFit?.();
+    cancelScheduledFit = scheduleFit({
+      measure: () => measureFit(force, bypassCache),
+      apply: (result) => {
+        cancelScheduledFit = null;
+        if (destroyed) {
+          return;
+        }
+        if (result) {
+          applyFit(result);
+        }
+        // The guard may have skipped the calculation; fall back to the last outcome.
+        setState({ status: settledStatus });
+      },
+    }, { beforePaint });
+  };
+
+  const cancelPending = () => {
+    cancelScheduledFit?.();
+    cancelScheduledFit = null;
+    if (debounceTimer) clearTimeout(debounceTimer);
+    debounceTimer = null;
+  };
+
+  const handleResize = () => {
+    if (debounceTimer) {
+      clearTimeout(debounceTimer);
+    }
+
+    setState({ status: 'measuring' });
+
+    debounceTimer = setTimeout(() => {
+      debounceTimer = null;
+      scheduleFontSize();
+    }, options.debounceDelay);
+  };
+
+  // Drops the guard state so the next fit measures and writes again. Mounting and option
+  // changes of every instance are fitted together before paint.
+  const refit = () => {
+    prevDimensions = null;
+    initialCalcDone = false;
+    appliedFontSize = null;
+    scheduleFontSize(false, false, true);
+  };
+
+  const connect = () => {
+    observedSize = null;
+    refit();
+
+    unobserveResize = observeResize(container, (size) => {
+      observedSize = size;
+      handleResize();
+    });
+
+    mutationObserver = new MutationObserver(handleResize);
+    mutationObserver.observe(text, {
+      childList: true,
+      subtree: true,
+      characterData: true,
+    });
+  };
+
+  const disconnect = () => {
+    unobserveResize?.();
+    unobserveResize = null;
+    mutationObserver?.disconnect();
+    mutationObserver = null;
+    cancelPending();
+  };
+
+  const snapshot = () => {
+    textSnapshot = snapshotStyles(text, MANAGED_TEXT_PROPERTIES);
+    containerSnapshot = snapshotStyles(container, MANAGED_CONTAINER_PROPERTIES);
+  };
+
+  const restoreSnapshots = () => {
+    undoOverflow?.();
+    undoOverflow = null;
+    undoNestedScales?.();
+    undoNestedScales = null;
+    referenceFontSize = null;
+    if (textSnapshot) restoreStyles(text, textSnapshot);
+    if (containerSnapshot) restoreStyles(container, containerSnapshot);
+  };
+
+  const releaseStyles = () => {
+    restoreSnapshots();
+    textSnapshot = null;
+    containerSnapshot = null;
+  };
+
+  // A web font arriving changes neither the container size nor the text, so the guard in
+  // measureFit would skip it; refit explicitly. Sizes measured with the fallback need no
+  // invalidation, since the newly loaded face is part of every cache key.
+  const listenForFontLoads = () => {
+    if (!options.refitOnFontLoad) {
+      return;
+    }
+
+    unsubscribeFontLoads = subscribeToFontLoads((families) => {
+      if (elementUsesFontFamily(text, families)) {
+        scheduleFontSize(true, true);
+      }
+    });
+  };
+
+  // Hold the text back until its font faces are loaded, then refit against the real font.
+  const waitForFontLoads = () => {
+    if (!options.waitForFonts || areFontsLoaded(text)) {
+      return;
+    }
+
+    let cancelled = false;
+    fontsPending = true;
+    cancelFontWait = () => {
+      cancelled = true;
+      fontsPending = false;
+    };
+
+    loadFonts(text).then(() => {
+      if (cancelled) return;
+      cancelFontWait = null;
+      fontsPending = false;
+      setState({});
+      calculateFontSize(true, true);
+    });
+  };
+
+  const stopWaitingForFonts = () => {
+    cancelFontWait?.();
+    cancelFontWait = null;
+  };
+
+  // Diffs the resolved options against the current ones and only redoes the affected work.
+  const applyOptions = (nextOptions: UseFitTextOptions) => {
+    if (destroyed) {
+      return;
+    }
+
+    const previous = options;
+    rawOptions = nextOptions;
+    options = resolveOptions(rawOptions);
+    const changed = (keys: Array<keyof ResolvedOptions>) => keys.some(key => previous[key] !== options[key]);
+
+    if (previous.enabled && !options.enabled) {
+      disconnect();
+    }
+
+    if (changed(STYLE_OPTIONS)) {
+      releaseStyles();
+      if (options.ownsStyles) {
+        snapshot();
+      }
+    }
+
+    if (previous.waitForFonts !== options.waitForFonts) {
+      stopWaitingForFonts();
+      waitForFontLoads();
+    }
+
+    // Re-enabling reconnects the observers, which performs a single catch-up fit.
+    if (!previous.enabled && options.enabled) {
+      connect();
+    } else if (options.enabled && changed(FIT_OPTIONS)) {
+      refit();
+    }
+
+    if (previous.refitOnFontLoad !== options.refitOnFontLoad) {
+      unsubscribeFontLoads?.();
+      unsubscribeFontLoads = null;
+      listenForFontLoads();
+    }
+
+    setState({});
+  };
+
+  if (options.ownsStyles) {
+    snapshot();
+  }
+  waitForFontLoads();
+  if (options.enabled) {
+    connect();
+  }
+  listenForFontLoads();
+  updateVisibility();
+
+  return {
+    update: ({ force = false } = {}) => {
+      calculateFontSize(true, force);
+    },
+
+    setOptions: (nextOptions) => {
+      applyOptions({ ...rawOptions, ...nextOptions });
+    },
+
+    replaceOptions: applyOptions,
+
+    getState,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    reset: () => {
+      cancelPending();
+
+      prevDimensions = null;
+      prevTextContent = null;
+      initialCalcDone = false;
+      appliedFontSize = null;
+      settledStatus = 'idle';
+      wasReset = true;
+
+      restoreSnapshots();
+      setState({
+        fontSize: options.maxFontSize,
+        overflowing: false,
+        status: 'idle',
+        isReady: false,
+        result: null,
+      });
+    },
+
+    destroy: () => {
+      if (destroyed) {
+        return;
+      }
+
+      destroyed = true;
+      disconnect();
+      unsubscribeFontLoads?.();
+      unsubscribeFontLoads = null;
+      stopWaitingForFonts();
+      updateVisibility();
+      releaseStyles();
+      listeners.clear();
+    },
+  };
+};
@@ -1,3 +1,13 @@
 export { useFitText } from './useFitText';
+export { useFitTextGroup } from './useFitTextGroup';
+export { FitText } from './FitText';
+export { createFitText } from './createFitText';
+export { defineFitTextElement } from './FitTextElement';
+export { FitTextCacheProvider } from './FitTextCacheProvider';
+export type { FitTextCacheProviderProps } from './FitTextCacheProvider';
+export { createCanvasMeasurer, createDomMeasurer } from './measurer';
+export { clearFitTextCache, createLruCache, createPersistentCache, noopCache } from './cache';
+export { FIT_FONT_SIZE_VARIABLE, FIT_SCALE_VARIABLE } from './output';
+export { flushFits } from './scheduler';
 export * from './types';
 export * from './utils';
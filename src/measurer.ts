@@ -0,0 +1,345 @@
+import { LineBreaking, LineMode, Measurer, MeasurerFont } from './types';
+
+// Line height used by browsers for `line-height: normal` with most fonts.
+export const NORMAL_LINE_HEIGHT_RATIO = 1.2;
+
+// Persistent hosts for measurement clones — reused across calls so we never append/remove
+// directly on document.body, which is the most expensive reflow point. Clones of elements in
+// a shadow root are measured inside that root, so the styles scoped to it still apply.
+const _measurementHosts = new WeakMap<Node, HTMLElement>();
+
+const getMeasurementHost = (root: Node = document): HTMLElement => {
+  const parent = root instanceof ShadowRoot ? root : document.body;
+  let host = _measurementHosts.get(parent);
+  if (!host || host.parentNode !== parent) {
+    host = document.createElement('div');
+    host.style.cssText =
+      'position:fixed;visibility:hidden;pointer-events:none;top:0;left:0;width:0;height:0;overflow:visible;';
+    parent.appendChild(host);
+    _measurementHosts.set(parent, host);
+  }
+  return host;
+};
+
+// lineHeight from getComputedStyle is always a px value (e.g. "125px" at 100px font-size).
+// Copying it directly would freeze the clone's line-height at that px value regardless of
+// what font-size the binary search tries, producing wrong scrollHeight measurements.
+// Convert to a unitless ratio so it scales correctly at every tested font size.
+const getLineHeightRatio = (computed: CSSStyleDeclaration): number | null => {
+  const computedFontSizePx = parseFloat(computed.fontSize);
+  const computedLineHeightPx = parseFloat(computed.lineHeight);
+  if (!isNaN(computedLineHeightPx) && !isNaN(computedFontSizePx) && computedFontSizePx > 0) {
+    return computedLineHeightPx / computedFontSizePx;
+  }
+  return null;
+};
+
+export const getMeasurerFont = (computed: CSSStyleDeclaration): MeasurerFont => ({
+  family: computed.fontFamily,
+  weight: computed.fontWeight,
+  style: computed.fontStyle,
+  variant: computed.fontVariant,
+  letterSpacing: computed.letterSpacing,
+  wordSpacing: computed.wordSpacing,
+  textTransform: computed.textTransform,
+  lineHeight: getLineHeightRatio(computed),
+  writingMode: computed.writingMode || 'horizontal-tb',
+  direction: computed.direction || 'ltr',
+});
+
+/** True for writing modes whose lines run vertically, where inline size is the physical height. */
+export const isVerticalWritingMode = (writingMode: string): boolean =>
+  writingMode.startsWith('vertical') || writingMode.startsWith('sideways');
+
+const applyMeasurerFont = (font: MeasurerFont, target: HTMLElement): void => {
+  target.style.fontFamily = font.family;
+  target.style.fontWeight = font.weight;
+  target.style.fontStyle = font.style;
+  target.style.fontVariant = font.variant;
+  target.style.letterSpacing = font.letterSpacing;
+  target.style.wordSpacing = font.wordSpacing;
+  target.style.textTransform = font.textTransform;
+  target.style.lineHeight = font.lineHeight !== null ? String(font.lineHeight) : 'normal';
+  target.style.writingMode = font.writingMode;
+  target.style.direction = font.direction;
+};
+
+// Descendants that can carry a font size of their own, in document order.
+const getNestedElements = (root: HTMLElement): HTMLElement[] =>
+  Array.from(root.querySelectorAll('*')).filter((node): node is HTMLElement => node instanceof HTMLElement);
+
+/** Writes each scale from getNestedFontScales as an `em` font size on the matching descendant. */
+export const applyNestedFontScales = (root: HTMLElement, scales: number[]): void => {
+  getNestedElements(root).forEach((element, index) => {
+    if (index < scales.length) {
+      element.style.setProperty('font-size', `${scales[index]}em`);
+    }
+  });
+};
+
+/**
+ * Font size of every descendant relative to its parent, read from a clone whose root is set
+ * to referenceFontSize. Pixel sizes and relative units both come out as the proportion they
+ * have at that size, so written back as `em` they scale with whatever size the root gets.
+ */
+export const getNestedFontScales = (source: HTMLElement, referenceFontSize: number): number[] => {
+  const clone = source.cloneNode(true) as HTMLElement;
+  clone.style.cssText = 'position: absolute; top: 0; left: 0;';
+  clone.style.fontSize = `${referenceFontSize}px`;
+  getMeasurementHost(source.getRootNode()).appendChild(clone);
+
+  try {
+    return getNestedElements(clone).map((element) => {
+      const fontSize = parseFloat(window.getComputedStyle(element).fontSize);
+      const parentFontSize = parseFloat(window.getComputedStyle(element.parentElement ?? clone).fontSize);
+      return fontSize > 0 && parentFontSize > 0 ? fontSize / parentFontSize : 1;
+    });
+  } finally {
+    clone.parentNode?.removeChild(clone);
+  }
+};
+
+// Line boxes of the laid out clone, from the fragments its text nodes break into. Fragments
+// on one line overlap across the block axis, even where nested elements are larger than the
+// text around them; a fragment centred past the current line starts the next one. Returns
+// null where nothing is laid out (no Range rects), so the caller can fall back to an estimate.
+const countLineBoxes = (clone: HTMLElement, vertical: boolean): number | null => {
+  if (typeof document.createRange !== 'function') {
+    return null;
+  }
+
+  const extents: Array<[start: number, end: number]> = [];
+  const range = document.createRange();
+  const walker = document.createTreeWalker(clone, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    range.selectNodeContents(node);
+    Array.from(range.getClientRects?.() ?? []).forEach((rect) => {
+      if (rect.width > 0 && rect.height > 0) {
+        extents.push(vertical ? [rect.left, rect.right] : [rect.top, rect.bottom]);
+      }
+    });
+  }
+
+  if (extents.length === 0) {
+    return null;
+  }
+
+  extents.sort((a, b) => (a[0] + a[1]) - (b[0] + b[1]));
+  let lines = 0;
+  let lineEnd = -Infinity;
+  extents.forEach(([start, end]) => {
+    if ((start + end) / 2 > lineEnd) {
+      lines++;
+      lineEnd = end;
+    } else {
+      lineEnd = Math.max(lineEnd, end);
+    }
+  });
+  return lines;
+};
+
+const createClone = (
+  source: HTMLElement | undefined,
+  text: string,
+  font: MeasurerFont,
+  maxWidth: number,
+  lineMode: LineMode,
+  nestedScales: number[] | undefined,
+  breaking: LineBreaking | undefined
+): HTMLElement => {
+  let clone: HTMLElement;
+  if (source) {
+    clone = source.cloneNode(true) as HTMLElement;
+  } else {
+    clone = document.createElement('div');
+    clone.textContent = text;
+  }
+
+  // A single line is measured at its natural length rather than clipped to the container.
+  // Sizes are logical, so vertical text wraps at the container's height. Words that may not
+  // break stick out of the line instead, which shows up in the scroll size.
+  const wordBreak = breaking?.breakWords === false
+    ? `word-wrap: normal; overflow-wrap: normal; word-break: normal;${breaking.hyphenate ? ' hyphens: auto;' : ''}`
+    : 'word-wrap: break-word; overflow-wrap: break-word;';
+  const lineStyles = lineMode === 'single'
+    ? 'inline-size: max-content; white-space: nowrap; overflow: hidden; text-overflow: ellipsis;'
+    : `inline-size: ${maxWidth}px; white-space: normal; ${wordBreak}`;
+
+  clone.style.cssText = `
+    position: absolute;
+    top: 0;
+    left: 0;
+    block-size: auto;
+    margin: 0;
+    padding: 0;
+    border: 0;
+    box-sizing: border-box;
+    ${lineStyles}
+  `;
+
+  applyMeasurerFont(font, clone);
+  // Hyphenation rules depend on the language, which the clone no longer inherits.
+  if (breaking?.hyphenate && breaking.lang) {
+    clone.lang = breaking.lang;
+  }
+  if (source && nestedScales) {
+    applyNestedFontScales(clone, nestedScales);
+  }
+  getMeasurementHost(source?.getRootNode()).appendChild(clone);
+  return clone;
+};
+
+/**
+ * Default measurer: lays the text out in a hidden clone, reads its scroll size and counts its
+ * line boxes. Created with a source element, the clone is a deep copy of it, so nested markup
+ * is measured as rendered; otherwise it holds the plain text. The clone is kept while text, font, width and
+ * line mode stay the same, so a search only changes its font size, and removed on release.
+ * With nestedScales (see getNestedFontScales), the clone's descendants scale with its root;
+ * with breaking, wrapped lines break words as the text element will.
+ */
+export const createDomMeasurer = (source?: HTMLElement, nestedScales?: number[], breaking?: LineBreaking): Measurer => {
+  let clone: HTMLElement | null = null;
+  let layout: { text: string; font: MeasurerFont; maxWidth: number; lineMode: LineMode } | null = null;
+
+  const release = () => {
+    clone?.parentNode?.removeChild(clone);
+    clone = null;
+    layout = null;
+  };
+
+  return {
+    measure(text, font, fontSize, maxWidth, lineMode) {
+      if (
+        !clone ||
+        !layout ||
+        layout.text !== text ||
+        layout.font !== font ||
+        layout.maxWidth !== maxWidth ||
+        layout.lineMode !== lineMode
+      ) {
+        release();
+        clone = createClone(source, text, font, maxWidth, lineMode, nestedScales, breaking);
+        layout = { text, font, maxWidth, lineMode };
+      }
+
+      clone.style.fontSize = `${fontSize}px`;
+      const vertical = isVerticalWritingMode(font.writingMode);
+      const width = vertical ? clone.scrollHeight : clone.scrollWidth;
+      const height = vertical ? clone.scrollWidth : clone.scrollHeight;
+      if (lineMode === 'single') {
+        return { width, height, lines: 1 };
+      }
+
+      // Without layout to count, estimate from the line-height: a unitless ratio, so one line
+      // is fontSize * ratio tall, with `normal` taken as NORMAL_LINE_HEIGHT_RATIO.
+      const lineHeight = fontSize * (font.lineHeight ?? NORMAL_LINE_HEIGHT_RATIO);
+      const lines = countLineBoxes(clone, vertical) ?? (lineHeight > 0 ? Math.round(height / lineHeight) : 0);
+
+      return { width, height, lines };
+    },
+    release,
+  };
+};
+
+// Canvas used for single-line measurement; getContext returns null where canvas is unsupported.
+let _measurementCanvas: HTMLCanvasElement | null = null;
+
+const getMeasurementContext = (): CanvasRenderingContext2D | null => {
+  if (!_measurementCanvas) {
+    _measurementCanvas = document.createElement('canvas');
+  }
+  return _measurementCanvas.getContext('2d');
+};
+
+// Font size canvas text is measured at; advances and font metrics scale linearly from it.
+const CANVAS_REFERENCE_SIZE = 100;
+
+const applyTextTransform = (text: string, textTransform: string): string => {
+  switch (textTransform) {
+    case 'uppercase':
+      return text.toUpperCase();
+    case 'lowercase':
+      return text.toLowerCase();
+    case 'capitalize':
+      return text.replace(/(^|\s)(\S)/g, (_, space: string, letter: string) => space + letter.toUpperCase());
+    default:
+      return text;
+  }
+};
+
+interface CanvasMetrics {
+  /** Advance width per px of font size, without spacing */
+  advancePerPx: number;
+
+  /** Letter- and word-spacing in px, which stay fixed while the font size changes */
+  spacing: number;
+
+  /** Line box height per px of font size */
+  lineHeightPerPx: number;
+}
+
+// Null when canvas is unavailable, or for `line-height: normal` without font bounding box
+// metrics: the font's own line gap is then only known to the DOM.
+const measureOnCanvas = (text: string, font: MeasurerFont): CanvasMetrics | null => {
+  const context = getMeasurementContext();
+  if (!context) {
+    return null;
+  }
+
+  // white-space: nowrap collapses runs of whitespace and drops it at the line edges.
+  const line = applyTextTransform(text.replace(/\s+/g, ' ').trim(), font.textTransform);
+  const smallCaps = font.variant === 'small-caps' ? 'small-caps ' : '';
+  context.font = `${font.style} ${smallCaps}${font.weight} ${CANVAS_REFERENCE_SIZE}px ${font.family}`;
+
+  const metrics = context.measureText(line);
+  const normalLineHeight = metrics.fontBoundingBoxAscent + metrics.fontBoundingBoxDescent;
+  const lineHeightPerPx = font.lineHeight ?? (normalLineHeight > 0 ? normalLineHeight / CANVAS_REFERENCE_SIZE : null);
+  if (lineHeightPerPx === null) {
+    return null;
+  }
+
+  const letterSpacing = parseFloat(font.letterSpacing) || 0;
+  const wordSpacing = parseFloat(font.wordSpacing) || 0;
+
+  return {
+    advancePerPx: metrics.width / CANVAS_REFERENCE_SIZE,
+    spacing: letterSpacing * [...line].length + wordSpacing * (line.split(' ').length - 1),
+    lineHeightPerPx,
+  };
+};
+
+/**
+ * Measures a single line on a canvas: measureText runs once per text and font at a reference
+ * size and every candidate size is scaled from it, since glyph advances scale linearly while
+ * letter- and word-spacing stay fixed (the clone copies them as computed px as well). Wrapped
+ * and vertical text, a source with nested markup (whose styling canvas can't reproduce) and
+ * anything canvas can't measure go to fallback, by default a DOM measurer for source.
+ */
+export const createCanvasMeasurer = (source?: HTMLElement, fallback: Measurer = createDomMeasurer(source)): Measurer => {
+  let measured: { text: string; font: MeasurerFont; metrics: CanvasMetrics | null } | null = null;
+
+  return {
+    measure(text, font, fontSize, maxWidth, lineMode) {
+      if (lineMode === 'single' && !isVerticalWritingMode(font.writingMode) && !source?.childElementCount) {
+        if (!measured || measured.text !== text || measured.font !== font) {
+          measured = { text, font, metrics: measureOnCanvas(text, font) };
+        }
+
+        const { metrics } = measured;
+        if (metrics) {
+          return {
+            width: metrics.advancePerPx * fontSize + metrics.spacing,
+            height: metrics.lineHeightPerPx * fontSize,
+            lines: 1,
+          };
+        }
+      }
+
+      return fallback.measure(text, font, fontSize, maxWidth, lineMode);
+    },
+    release() {
+      measured = null;
+      fallback.release?.();
+    },
+  };
+};
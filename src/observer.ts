@@ -0,0 +1,52 @@
+export interface ObservedSize {
+  width: number;
+  height: number;
+}
+
+export type ResizeListener = (size: ObservedSize) => void;
+
+// One ResizeObserver shared by every hook instance. Entries are dispatched to the listeners
+// registered for their target; the observer is created lazily and dropped once nothing is
+// observed, so idle pages hold no observer at all.
+const listeners = new Map<Element, Set<ResizeListener>>();
+let sharedObserver: ResizeObserver | null = null;
+
+const handleEntries = (entries: ResizeObserverEntry[]): void => {
+  entries.forEach(entry => {
+    const size = { width: entry.contentRect.width, height: entry.contentRect.height };
+    listeners.get(entry.target)?.forEach(listener => listener(size));
+  });
+};
+
+/**
+ * Observes the content box of element through the shared ResizeObserver. The listener
+ * receives the entry's contentRect, which already excludes padding. Returns an unsubscribe.
+ */
+export const observeResize = (element: Element, listener: ResizeListener): (() => void) => {
+  if (!sharedObserver) {
+    sharedObserver = new ResizeObserver(handleEntries);
+  }
+
+  let elementListeners = listeners.get(element);
+  if (!elementListeners) {
+    elementListeners = new Set();
+    listeners.set(element, elementListeners);
+    sharedObserver.observe(element);
+  }
+  elementListeners.add(listener);
+
+  return () => {
+    const current = listeners.get(element);
+    if (!current?.delete(listener) || current.size > 0) {
+      return;
+    }
+
+    listeners.delete(element);
+    sharedObserver?.unobserve(element);
+
+    if (listeners.size === 0) {
+      sharedObserver?.disconnect();
+      sharedObserver = null;
+    }
+  };
+};
@@ -0,0 +1,233 @@
+import { FitResult, FontSizeOutput, FontSizeVariableTarget, LineMode, OverflowMode } from './types';
+import { NORMAL_LINE_HEIGHT_RATIO, applyNestedFontScales, getMeasurerFont, isVerticalWritingMode } from './measurer';
+
+export const FIT_FONT_SIZE_VARIABLE = '--fit-font-size';
+export const FIT_SCALE_VARIABLE = '--fit-scale';
+
+/** Inline properties the hooks may write on the text element. */
+export const MANAGED_TEXT_PROPERTIES = [
+  'font-size', 'white-space', 'overflow', 'text-overflow', 'overflow-wrap', 'word-break', 'hyphens',
+  'transform', 'transform-origin', 'inline-size', FIT_FONT_SIZE_VARIABLE, FIT_SCALE_VARIABLE,
+];
+
+/** Inline properties the hooks may write on the container element. */
+export const MANAGED_CONTAINER_PROPERTIES = [FIT_FONT_SIZE_VARIABLE, FIT_SCALE_VARIABLE];
+
+export type StyleSnapshot = Array<[property: string, value: string, priority: string]>;
+
+export const snapshotStyles = (element: HTMLElement, properties: string[]): StyleSnapshot =>
+  properties.map(property => [
+    property,
+    element.style.getPropertyValue(property),
+    element.style.getPropertyPriority(property),
+  ]);
+
+export const restoreStyles = (element: HTMLElement, snapshot: StyleSnapshot): void => {
+  snapshot.forEach(([property, value, priority]) => {
+    if (value) {
+      element.style.setProperty(property, value, priority);
+    } else {
+      element.style.removeProperty(property);
+    }
+  });
+};
+
+const getVariableTarget = (
+  container: HTMLElement | null,
+  text: HTMLElement | null,
+  target: FontSizeVariableTarget
+): HTMLElement | null => (target === 'container' ? container : text);
+
+/** Writes a fitted size to the DOM according to the configured output mode. */
+export const applyFontSize = (
+  container: HTMLElement | null,
+  text: HTMLElement | null,
+  fontSize: number,
+  output: FontSizeOutput,
+  variableTarget: FontSizeVariableTarget
+): void => {
+  if (output === 'inline') {
+    text?.style.setProperty('font-size', `${fontSize}px`);
+  } else if (output === 'cssVariable') {
+    getVariableTarget(container, text, variableTarget)?.style.setProperty(FIT_FONT_SIZE_VARIABLE, `${fontSize}px`);
+  }
+};
+
+// Corner where the first line starts: lines run right to left in vertical-rl, and rtl text
+// starts at the right edge, or at the bottom in vertical text.
+const getStartCorner = (text: HTMLElement): string => {
+  const { writingMode, direction } = window.getComputedStyle(text);
+  const rtl = direction === 'rtl';
+  if (!isVerticalWritingMode(writingMode || 'horizontal-tb')) {
+    return rtl ? 'top right' : 'top left';
+  }
+  const side = writingMode.endsWith('rl') ? 'right' : 'left';
+  return `${rtl ? 'bottom' : 'top'} ${side}`;
+};
+
+/**
+ * Writes transform-strategy scale factors, anchored at the corner where the text starts, and
+ * the line length wrapped text is laid out at before scaling.
+ */
+export const applyScale = (
+  container: HTMLElement | null,
+  text: HTMLElement | null,
+  scale: { x: number; y: number },
+  output: FontSizeOutput,
+  variableTarget: FontSizeVariableTarget,
+  wrapSize?: number
+): void => {
+  const value = scale.x === scale.y ? `${scale.x}` : `${scale.x}, ${scale.y}`;
+
+  if (output === 'inline' && text) {
+    if (wrapSize !== undefined) {
+      text.style.setProperty('inline-size', `${wrapSize}px`);
+    }
+    text.style.setProperty('transform-origin', getStartCorner(text));
+    text.style.setProperty('transform', `scale(${value})`);
+  } else if (output === 'cssVariable') {
+    getVariableTarget(container, text, variableTarget)?.style.setProperty(FIT_SCALE_VARIABLE, value);
+  }
+};
+
+/**
+ * Sizes the text's descendants in proportion to it, as measured by getNestedFontScales.
+ * Returns a function that puts back their own inline font sizes.
+ */
+export const applyNestedScales = (text: HTMLElement, scales: number[]): (() => void) => {
+  const snapshots = Array.from(text.querySelectorAll('*'))
+    .filter((node): node is HTMLElement => node instanceof HTMLElement)
+    .map(element => [element, snapshotStyles(element, ['font-size'])] as const);
+
+  applyNestedFontScales(text, scales);
+
+  return () => {
+    snapshots.forEach(([element, snapshot]) => restoreStyles(element, snapshot));
+  };
+};
+
+// Properties and attributes the overflow modes may write, snapshotted before each application.
+const OVERFLOW_TEXT_PROPERTIES = [
+  'display', 'overflow', 'text-overflow', 'white-space', '-webkit-box-orient', '-webkit-line-clamp',
+];
+const OVERFLOW_CONTAINER_PROPERTIES = ['overflow'];
+const TRUNCATION_ATTRIBUTES = ['title', 'aria-label'];
+
+// Marquee scroll speed in px per second, and the share of each pass spent paused at either end.
+const MARQUEE_SPEED = 50;
+const MARQUEE_PAUSE = 0.15;
+
+const prefersReducedMotion = (): boolean =>
+  typeof window.matchMedia === 'function' && window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+
+// How far a single line runs past the container along the line, the distance the marquee
+// travels. Lines run down the container in vertical text.
+const getLineOverflow = (result: FitResult, vertical: boolean): number =>
+  vertical ? result.contentHeight - result.availableHeight : result.contentWidth - result.availableWidth;
+
+// Clamping only exists for wrapped text and ellipsis only for a single line, so each falls
+// back to the other in the wrong line mode. The marquee needs a single line and animates a
+// transform, so it truncates instead with wrapped text, under the transform strategy, for
+// users who prefer reduced motion, and when the line only overflows across (in height).
+const resolveOverflowMode = (
+  overflow: OverflowMode,
+  lineMode: LineMode,
+  result: FitResult,
+  vertical: boolean
+): OverflowMode => {
+  if (lineMode === 'single') {
+    if (overflow === 'clamp') return 'ellipsis';
+    if (overflow === 'marquee' && (result.scale || prefersReducedMotion() || getLineOverflow(result, vertical) <= 0)) {
+      return 'ellipsis';
+    }
+    return overflow;
+  }
+  return overflow === 'ellipsis' || overflow === 'marquee' ? 'clamp' : overflow;
+};
+
+/**
+ * Handles a result that overflows even at the chosen size: truncates it with an ellipsis or a
+ * line clamp (to the lines that fit the height, and at most maxLines), makes the container
+ * scrollable, or scrolls a single line back and forth. Truncated text gets its full content as `title` and `aria-label`, unless it already has
+ * them. Returns a function that puts back everything it wrote.
+ */
+export const applyOverflow = (
+  container: HTMLElement,
+  text: HTMLElement,
+  result: FitResult,
+  overflow: OverflowMode,
+  lineMode: LineMode,
+  maxLines: number = Infinity
+): (() => void) => {
+  const font = getMeasurerFont(window.getComputedStyle(text));
+  const vertical = isVerticalWritingMode(font.writingMode);
+  const mode = resolveOverflowMode(overflow, lineMode, result, vertical);
+  const textSnapshot = snapshotStyles(text, OVERFLOW_TEXT_PROPERTIES);
+  const containerSnapshot = snapshotStyles(container, OVERFLOW_CONTAINER_PROPERTIES);
+  const attributes = TRUNCATION_ATTRIBUTES.map(name => [name, text.getAttribute(name)] as const);
+  let animation: Animation | null = null;
+  let truncated = mode === 'ellipsis';
+
+  if (mode === 'ellipsis') {
+    text.style.setProperty('white-space', 'nowrap');
+    text.style.setProperty('overflow', 'hidden');
+    text.style.setProperty('text-overflow', 'ellipsis');
+  } else if (mode === 'clamp') {
+    const lineHeight = result.fontSize * (font.lineHeight ?? NORMAL_LINE_HEIGHT_RATIO);
+    // Lines stack across the block axis, horizontally in vertical text.
+    const blockSize = vertical ? result.availableWidth : result.availableHeight;
+    const lines = Math.max(1, Math.min(maxLines, Math.floor(blockSize / lineHeight)));
+    // Text that overflows along its lines already renders no more lines than that.
+    truncated = lines < result.lines;
+    if (truncated) {
+      text.style.setProperty('display', '-webkit-box');
+      text.style.setProperty('-webkit-box-orient', 'vertical');
+      text.style.setProperty('-webkit-line-clamp', String(lines));
+      text.style.setProperty('overflow', 'hidden');
+    }
+  } else if (mode === 'scroll') {
+    // Clipping from the page's styles would hide what the container can scroll to.
+    text.style.setProperty('overflow', 'visible');
+    text.style.setProperty('text-overflow', 'clip');
+    container.style.setProperty('overflow', 'auto');
+  } else if (mode === 'marquee') {
+    const distance = getLineOverflow(result, vertical);
+    const offset = font.direction === 'rtl' ? distance : -distance;
+    const translate = vertical ? 'translateY' : 'translateX';
+    text.style.setProperty('overflow', 'visible');
+    text.style.setProperty('text-overflow', 'clip');
+    container.style.setProperty('overflow', 'hidden');
+    animation = typeof text.animate === 'function'
+      ? text.animate([
+        { transform: `${translate}(0)`, offset: 0 },
+        { transform: `${translate}(0)`, offset: MARQUEE_PAUSE },
+        { transform: `${translate}(${offset}px)`, offset: 1 - MARQUEE_PAUSE },
+        { transform: `${translate}(${offset}px)`, offset: 1 },
+      ], {
+        duration: (distance / MARQUEE_SPEED) * 1000 / (1 - 2 * MARQUEE_PAUSE),
+        direction: 'alternate',
+        iterations: Infinity,
+      })
+      : null;
+  }
+
+  if (truncated) {
+    const fullText = (text.textContent || '').trim();
+    attributes.forEach(([name, value]) => {
+      if (value === null) text.setAttribute(name, fullText);
+    });
+  }
+
+  return () => {
+    animation?.cancel();
+    restoreStyles(text, textSnapshot);
+    restoreStyles(container, containerSnapshot);
+    attributes.forEach(([name, value]) => {
+      if (value === null) {
+        text.removeAttribute(name);
+      } else {
+        text.setAttribute(name, value);
+      }
+    });
+  };
+};
@@ -0,0 +1,144 @@
+export interface FitJob<T> {
+  /** Read phase: measure without writing to any visible element. */
+  measure: () => T;
+  /** Write phase: apply the measurement to the DOM. */
+  apply: (measurement: T) => void;
+}
+
+export interface ScheduleFitOptions {
+  /**
+   * Flush once the current task's synchronous work is done instead of on the next frame.
+   * A React commit runs every layout effect before that, so instances mounted or
+   * reconfigured in one commit are measured together and still written before paint.
+   */
+  beforePaint?: boolean;
+}
+
+// Time spent measuring per flush before the remaining jobs are pushed to a later one.
+const FRAME_BUDGET_MS = 8;
+
+// Jobs from every hook instance are flushed together: all measurements first, then all writes,
+// so one instance's font-size write never forces layout for another instance's read.
+const queue = new Set<FitJob<unknown>>();
+let pendingFlush: { id: number; idle: boolean } | null = null;
+// Set while a microtask flush is queued for fits that have to land before paint.
+let flushQueuedBeforePaint = false;
+
+const now = (): number => (typeof performance !== 'undefined' ? performance.now() : Date.now());
+
+const requestFlush = (idle: boolean): void => {
+  if (pendingFlush) {
+    return;
+  }
+
+  if (idle && typeof requestIdleCallback === 'function') {
+    pendingFlush = { id: requestIdleCallback(flush), idle: true };
+  } else {
+    pendingFlush = { id: requestAnimationFrame(flush), idle: false };
+  }
+};
+
+const cancelFlush = (): void => {
+  if (!pendingFlush) {
+    return;
+  }
+
+  if (pendingFlush.idle) {
+    cancelIdleCallback(pendingFlush.id);
+  } else {
+    cancelAnimationFrame(pendingFlush.id);
+  }
+  pendingFlush = null;
+};
+
+const requestFlushBeforePaint = (): void => {
+  if (flushQueuedBeforePaint) {
+    return;
+  }
+
+  flushQueuedBeforePaint = true;
+  queueMicrotask(() => {
+    if (flushQueuedBeforePaint) {
+      flushFits();
+    }
+  });
+};
+
+// Runs queued jobs, measuring for at most `budget` milliseconds.
+const run = (budget: number): void => {
+  const start = now();
+  const measured: Array<() => void> = [];
+  // Errors thrown by jobs. The first is rethrown once every other job has been written, so
+  // one failing measurer doesn't leave the rest of the batch half done.
+  const errors: unknown[] = [];
+
+  const attempt = (step: () => void) => {
+    try {
+      step();
+    } catch (error) {
+      errors.push(error);
+    }
+  };
+
+  for (const job of queue) {
+    // Always make progress, even when a single measurement exceeds the budget.
+    if (measured.length > 0 && now() - start > budget) {
+      break;
+    }
+
+    queue.delete(job);
+    // A job whose measurement throws is skipped in the write phase.
+    attempt(() => {
+      const measurement = job.measure();
+      measured.push(() => job.apply(measurement));
+    });
+  }
+
+  measured.forEach(attempt);
+
+  // Work that didn't fit in this frame's budget waits for idle time rather than the next frame.
+  if (queue.size > 0) {
+    requestFlush(true);
+  }
+
+  if (errors.length > 0) {
+    throw errors[0];
+  }
+};
+
+function flush(): void {
+  pendingFlush = null;
+  run(FRAME_BUDGET_MS);
+}
+
+/**
+ * Runs every queued fit now, in one read/write pass, without waiting for the scheduled
+ * flush. Lets callers that read the fitted size right away skip the wait.
+ */
+export function flushFits(): void {
+  flushQueuedBeforePaint = false;
+  cancelFlush();
+  run(Infinity);
+}
+
+/**
+ * Queues a fit for the next batched flush. Returns a function that removes the job if it
+ * hasn't run yet.
+ */
+export const scheduleFit = <T>(job: FitJob<T>, { beforePaint = false }: ScheduleFitOptions = {}): (() => void) => {
+  const queued = job as FitJob<unknown>;
+  queue.add(queued);
+  if (beforePaint) {
+    requestFlushBeforePaint();
+  } else {
+    requestFlush(false);
+  }
+
+  return () => {
+    queue.delete(queued);
+    if (queue.size === 0) {
+      flushQueuedBeforePaint = false;
+      cancelFlush();
+    }
+  };
+};
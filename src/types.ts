@@ -1,7 +1,18 @@
-import { RefObject } from 'react';
+import { CSSProperties, ElementType, HTMLAttributes, ReactNode, Ref, RefCallback, RefObject } from 'react';
 
 export type FitMode = 'width' | 'height' | 'both';
 export type LineMode = 'single' | 'multi';
+export type FitStatus = 'idle' | 'measuring' | 'fitted' | 'overflow';
+export type FontSizeOutput = 'inline' | 'cssVariable' | 'none';
+export type FitStrategy = 'fontSize' | 'transform';
+export type FontSizeVariableTarget = 'container' | 'text';
+export type OverflowMode = 'visible' | 'ellipsis' | 'clamp' | 'scroll' | 'marquee';
+
+/**
+ * Callback ref that also behaves as a RefObject. Pass it to `ref={...}`; observers are
+ * attached and detached whenever the underlying node changes.
+ */
+export type FitTextRef = RefCallback<HTMLElement> & RefObject<HTMLElement | null>;
 
 export interface UseFitTextOptions {
   /** Minimum font size in pixels @default 1 */
@@ -13,7 +24,10 @@ export interface UseFitTextOptions {
   /** Binary search resolution @default 0.5 */
   resolution?: number;
 
-  /** Fit mode: width, height, or both @default 'both' */
+  /**
+   * Fit mode: width, height, or both. Axes follow the text's writing mode, so in vertical
+   * text 'width' is the length of a line (the physical height) @default 'both'
+   */
   fitMode?: FitMode;
 
   /** Line mode: single line or multi line @default 'multi' */
@@ -21,15 +35,395 @@ export interface UseFitTextOptions {
 
   /** Debounce delay in ms for resize updates @default 100 */
   debounceDelay?: number;
+
+  /** Maximum number of rendered lines in multi line mode */
+  maxLines?: number;
+
+  /**
+   * Minimum number of rendered lines in multi line mode, when reachable below maxFontSize.
+   * Reaching it takes a larger size than fits, so a result it changes always overflows
+   */
+  minLines?: number;
+
+  /**
+   * Let a word that is longer than a line break anywhere (`overflow-wrap: break-word`). Set to
+   * false to only choose sizes at which every word fits on a line of its own, in multi line mode @default true
+   */
+  breakWords?: boolean;
+
+  /**
+   * With breakWords false, let long words break at hyphenation points (`hyphens: auto`) instead
+   * of keeping them whole. Needs a `lang` on the text or one of its ancestors @default false
+   */
+  hyphenate?: boolean;
+
+  /** Type scale to snap to: the largest allowed size that fits is chosen */
+  allowedSizes?: number[];
+
+  /**
+   * 'fontSize' searches font sizes; 'transform' measures the content once and scales it
+   * with `transform: scale()`, which also shrinks icons and other fixed-size content @default 'fontSize'
+   */
+  strategy?: FitStrategy;
+
+  /** With the transform strategy and fitMode 'both', scale both axes uniformly @default true */
+  preserveAspectRatio?: boolean;
+
+  /**
+   * How the fitted size is applied: an inline `font-size` on the text element, the
+   * `--fit-font-size` custom property, or not at all (use the returned value) @default 'inline'
+   */
+  output?: FontSizeOutput;
+
+  /** Element that receives `--fit-font-size` in 'cssVariable' output @default 'container' */
+  cssVariableTarget?: FontSizeVariableTarget;
+
+  /**
+   * Apply the white-space/overflow styles each line mode relies on. Disable when your
+   * stylesheets already handle wrapping @default true
+   */
+  applyLineStyles?: boolean;
+
+  /**
+   * Set to false to suspend fitting: observers are disconnected and pending refits cancelled.
+   * Re-enabling performs one catch-up fit @default true
+   */
+  enabled?: boolean;
+
+  /** Restore the original inline styles while disabled @default false */
+  restoreOnDisable?: boolean;
+
+  /** Refit when web fonts used by the text finish loading @default true */
+  refitOnFontLoad?: boolean;
+
+  /**
+   * What to do when the text overflows even at the chosen size: leave it, truncate it with an
+   * ellipsis (single line) or a line clamp (multi line), let the container scroll, or scroll a
+   * single line back and forth. Truncated text gets its full content as title/aria-label @default 'visible'
+   */
+  overflow?: OverflowMode;
+
+  /** Hide the text until its font faces have loaded, then fit it @default false */
+  waitForFonts?: boolean;
+
+  /** Keep the text `visibility: hidden` until the first successful fit; not again after reset() @default false */
+  hideUntilFitted?: boolean;
+
+  /**
+   * Scale nested elements with font sizes of their own (`<small>`, `<sup>`, px-sized spans) in
+   * proportion to the text, as they were at its original size @default false
+   */
+  scaleNested?: boolean;
+
+  /** Cache for measured results; falls back to the nearest FitTextCacheProvider (in React), then the shared default */
+  cache?: FitTextCache;
+
+  /** Layout backend used to measure candidate sizes; defaults to a hidden DOM clone of the text */
+  measurer?: Measurer;
+
+  /** Called after a calculation when the text fits its container */
+  onFit?: (result: FitResult) => void;
+
+  /** Called after a calculation when the text still overflows at the chosen size */
+  onOverflow?: (result: FitResult) => void;
+}
+
+/** Extra constraints for calculateFitResult / calculateOptimalFontSize */
+export interface FitCalculationOptions {
+  /** Maximum number of rendered lines (multi line mode only) */
+  maxLines?: number;
+
+  /** Minimum number of rendered lines (multi line mode only); raising the size to reach it overflows */
+  minLines?: number;
+
+  /** Discrete font sizes to choose from instead of a continuous range */
+  allowedSizes?: number[];
+
+  /** Cache to read and store results in @default the shared default cache */
+  cache?: FitTextCache;
+
+  /** Lays out text at a candidate size @default a DOM measurer cloning the text element */
+  measurer?: Measurer;
+
+  /** Descendant font sizes relative to their parents, applied to the DOM measurer's clone (see getNestedFontScales) */
+  nestedScales?: number[];
+
+  /** Let words longer than a line break anywhere; false requires each word to fit the width @default true */
+  breakWords?: boolean;
+
+  /** With breakWords false, hyphenate long words in the text's language @default false */
+  hyphenate?: boolean;
+}
+
+/** How the DOM measurer's clone may break words that don't fit on a line (multi line mode only) */
+export interface LineBreaking {
+  breakWords: boolean;
+  hyphenate: boolean;
+
+  /** Language to hyphenate in, from the nearest `lang` attribute */
+  lang: string;
+}
+
+/** Resolved font properties of the text element, as a measurer needs them */
+export interface MeasurerFont {
+  family: string;
+  weight: string;
+  style: string;
+  variant: string;
+  letterSpacing: string;
+  wordSpacing: string;
+  textTransform: string;
+
+  /** Line height as a multiple of the font size; null for `normal` */
+  lineHeight: number | null;
+
+  /** `writing-mode`; in vertical modes lines run top to bottom */
+  writingMode: string;
+
+  /** `direction`, ltr or rtl */
+  direction: string;
+}
+
+/** Size of laid out text along its lines, so in vertical writing modes width is the physical height */
+export interface TextMeasurement {
+  /** Extent along the lines (inline size) */
+  width: number;
+
+  /** Extent across the lines (block size) */
+  height: number;
+
+  lines: number;
+}
+
+/** Layout backend the font size searches measure candidate sizes with */
+export interface Measurer {
+  /** Size of text set in font at fontSize, wrapped at maxWidth (an inline size) in multi line mode */
+  measure(text: string, font: MeasurerFont, fontSize: number, maxWidth: number, lineMode: LineMode): TextMeasurement;
+
+  /** Called after each fit, to free anything kept between the measurements of one search */
+  release?(): void;
+}
+
+/** Storage for measured fit results, keyed by everything that affects the measurement */
+export interface FitTextCache {
+  get(key: string): FitResult | undefined;
+  set(key: string, result: FitResult): void;
+  delete(key: string): void;
+  clear(): void;
+}
+
+export interface LruCacheOptions {
+  /** Entries kept before the least recently used one is evicted @default 500 */
+  maxEntries?: number;
+
+  /** Milliseconds an entry stays valid @default 30000 */
+  ttl?: number;
+}
+
+/** Key-value store a persistent cache writes to; localStorage and sessionStorage qualify as is */
+export interface FitTextStorage {
+  getItem(key: string): string | null | undefined | Promise<string | null | undefined>;
+  setItem(key: string, value: string): void | Promise<void>;
+}
+
+export interface PersistentCacheOptions extends LruCacheOptions {
+  /** Where entries are persisted */
+  storage: FitTextStorage;
+
+  /** Milliseconds an entry stays valid, across page loads @default 604800000 (7 days) */
+  ttl?: number;
+
+  /** Storage key holding the serialized entries @default 'react-use-fittext' */
+  storageKey?: string;
+
+  /** Bump to discard everything persisted under a previous version @default 1 */
+  version?: string | number;
+
+  /** Milliseconds to wait after a change before writing to storage @default 1000 */
+  writeDelay?: number;
+}
+
+export interface PersistentFitTextCache extends FitTextCache {
+  /** Resolves once persisted entries have been loaded; immediately for synchronous storage */
+  ready: Promise<void>;
+
+  /** Writes pending changes to storage now */
+  flush(): Promise<void>;
+}
+
+export interface FitResult {
+  /** The chosen font size in pixels */
+  fontSize: number;
+
+  /** Measured content width at the chosen font size */
+  contentWidth: number;
+
+  /** Measured content height at the chosen font size */
+  contentHeight: number;
+
+  /** Available width inside the container (padding excluded) */
+  availableWidth: number;
+
+  /** Available height inside the container (padding excluded) */
+  availableHeight: number;
+
+  /** True when the search bottomed out at minFontSize */
+  clampedToMin: boolean;
+
+  /** True when the text fits at maxFontSize and the search stopped there */
+  clampedToMax: boolean;
+
+  /** True when the content exceeds the available space on a fitted axis or maxLines */
+  overflowing: boolean;
+
+  /** Number of rendered lines at the chosen font size */
+  lines: number;
+
+  /** Index of the chosen size in allowedSizes, when a type scale is used */
+  step?: number;
+
+  /** Scale factors applied by the transform strategy; fontSize is then the effective size */
+  scale?: { x: number; y: number };
+
+  /**
+   * Line length the unscaled text wraps at under the transform strategy in multi line mode,
+   * so the scaled lines span the container; written as the text's `inline-size`
+   */
+  wrapSize?: number;
+}
+
+export interface RecalculateOptions {
+  /** Also bypass the shared font size cache @default false */
+  force?: boolean;
 }
 
 export interface UseFitTextReturn {
   /** Ref to be applied to the container element */
-  containerRef: RefObject<HTMLElement | null>;
+  containerRef: FitTextRef;
 
   /** Ref to be applied to the text element */
-  textRef: RefObject<HTMLElement | null>;
+  textRef: FitTextRef;
 
   /** The calculated font size */
   fontSize: number;
+
+  /** Whether the text overflows its container at the calculated font size */
+  overflowing: boolean;
+
+  /** idle before the first fit, measuring while a refit is pending, then fitted or overflow */
+  status: FitStatus;
+
+  /** True once the text has been fitted (and its fonts loaded, with waitForFonts) */
+  isReady: boolean;
+
+  /** Refit immediately, even if the container size and text are unchanged */
+  recalculate: (options?: RecalculateOptions) => void;
+
+  /** Restore the original inline styles and drop measurement state; the next fit starts from scratch */
+  reset: () => void;
+}
+
+export interface FitTextState {
+  /** The calculated font size */
+  fontSize: number;
+
+  /** Whether the text overflows its container at the calculated font size */
+  overflowing: boolean;
+
+  /** Current fitting status */
+  status: FitStatus;
+
+  /** True once the text has been fitted */
+  isReady: boolean;
+
+  /** The most recent fit result, null until the first calculation */
+  result: FitResult | null;
+}
+
+export type FitTextListener = (state: FitTextState) => void;
+
+/** Headless controller returned by createFitText */
+export interface FitTextController {
+  /** Refit immediately, even if the container size and text are unchanged */
+  update: (options?: RecalculateOptions) => void;
+
+  /** Merge new options in; the text is refitted when they change the result */
+  setOptions: (options: UseFitTextOptions) => void;
+
+  /** Replace all options, so keys left out fall back to their defaults; refits like setOptions */
+  replaceOptions: (options: UseFitTextOptions) => void;
+
+  /** The current fit state */
+  getState: () => FitTextState;
+
+  /** Call listener whenever the fit state changes; returns an unsubscribe function */
+  subscribe: (listener: FitTextListener) => () => void;
+
+  /** Restore the original inline styles and drop measurement state; the next fit starts from scratch */
+  reset: () => void;
+
+  /** Disconnect the observers, cancel pending refits and restore the original inline styles */
+  destroy: () => void;
+}
+
+/** The `<fit-text>` custom element registered by defineFitTextElement */
+export interface FitTextElement extends HTMLElement {
+  /** Options without an attribute (output, cache, measurer, ...); attributes take precedence */
+  options: UseFitTextOptions;
+
+  /** The current fit state */
+  readonly state: FitTextState;
+
+  /** Refit immediately, even if the element's size and text are unchanged */
+  update: (options?: RecalculateOptions) => void;
+}
+
+/** How member sizes are combined into the group's size: 'min' keeps every member fitting */
+export type FitTextGroupReducer = 'min' | 'median' | ((sizes: number[]) => number);
+
+export interface UseFitTextGroupOptions extends Pick<
+  UseFitTextOptions,
+  'minFontSize' | 'maxFontSize' | 'resolution' | 'fitMode' | 'lineMode' | 'debounceDelay' | 'maxLines' | 'minLines' | 'breakWords' | 'hyphenate' | 'allowedSizes' | 'output' | 'cssVariableTarget' | 'applyLineStyles' | 'cache' | 'measurer'
+> {
+  /** Combines the members' optimal sizes into the shared size @default 'min' */
+  reducer?: FitTextGroupReducer;
+}
+
+export interface FitTextGroupMember {
+  /** Ref to be applied to the member's container element */
+  containerRef: RefCallback<HTMLElement>;
+
+  /** Ref to be applied to the member's text element */
+  textRef: RefCallback<HTMLElement>;
+}
+
+export interface UseFitTextGroupReturn {
+  /** The font size shared by every member */
+  fontSize: number;
+
+  /** Returns stable refs for the member identified by key */
+  member: (key: string | number) => FitTextGroupMember;
+}
+
+/** Fit state passed to a `<FitText>` render function */
+export type FitTextRenderState = FitTextState;
+
+export interface FitTextProps extends UseFitTextOptions, Omit<HTMLAttributes<HTMLElement>, 'children'> {
+  /** Element rendered for the text @default 'div' */
+  as?: ElementType;
+
+  /** Element rendered for the container @default 'div' */
+  containerAs?: ElementType;
+
+  /** Class name applied to the text element; `className` goes to the container */
+  textClassName?: string;
+
+  /** Style applied to the text element; `style` goes to the container */
+  textStyle?: CSSProperties;
+
+  /** Ref forwarded to the text element; `ref` goes to the container */
+  textRef?: Ref<HTMLElement>;
+
+  /** Text content, or a render function receiving the current fit state */
+  children?: ReactNode | ((state: FitTextRenderState) => ReactNode);
 }
@@ -1,134 +1,88 @@
 import { useCallback, useLayoutEffect, useRef, useState } from 'react';
-import { UseFitTextOptions, UseFitTextReturn } from './types';
-import { calculateOptimalFontSize, getAvailableContentSpace } from './utils';
-
-export const useFitText = ({
-  minFontSize = 1,
-  maxFontSize = 100,
-  resolution = 0.5,
-  fitMode = 'both',
-  lineMode = 'multi',
-  debounceDelay = 100
-}: UseFitTextOptions = {}): UseFitTextReturn => {
-  const containerRef = useRef<HTMLElement>(null);
-  const textRef = useRef<HTMLElement>(null);
-  const [fontSize, setFontSize] = useState<number>(maxFontSize);
-  const resizeObserverRef = useRef<ResizeObserver | null>(null);
-  const mutationObserverRef = useRef<MutationObserver | null>(null);
-  const frameRef = useRef<number | null>(null);
-  const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
-  const calculatingRef = useRef<boolean>(false);
-  const prevDimensionsRef = useRef<{ width: number; height: number } | null>(null);
-  const prevTextContentRef = useRef<string | null>(null);
-  const initialCalcDoneRef = useRef<boolean>(false);
-
-  const calculateFontSize = useCallback(() => {
-    if (!containerRef.current || !textRef.current || calculatingRef.current) {
-      return;
-    }
-
-    const currentTextContent = textRef.current.textContent || '';
-    const availableSpace = getAvailableContentSpace(containerRef.current);
-
-    if (availableSpace.width <= 0 || availableSpace.height <= 0) {
-      return;
-    }
-
-    const prevDimensions = prevDimensionsRef.current;
-    if (
-      initialCalcDoneRef.current &&
-      prevDimensions &&
-      prevDimensions.width === availableSpace.width &&
-      prevDimensions.height === availableSpace.height &&
-      prevTextContentRef.current === currentTextContent
-    ) {
-      return;
-    }
-
-    calculatingRef.current = true;
-    prevDimensionsRef.current = { ...availableSpace };
-    prevTextContentRef.current = currentTextContent;
-
-    if (textRef.current) {
-      if (lineMode === 'single') {
-        textRef.current.style.whiteSpace = 'nowrap';
-        textRef.current.style.overflow = 'hidden';
-        textRef.current.style.textOverflow = 'ellipsis';
-      } else {
-        textRef.current.style.whiteSpace = 'normal';
-        textRef.current.style.wordWrap = 'break-word';
-        textRef.current.style.overflowWrap = 'break-word';
-        textRef.current.style.overflow = 'visible';
-        textRef.current.style.textOverflow = 'unset';
-      }
-    }
-
-    const optimalSize = calculateOptimalFontSize(
-      textRef.current,
-      availableSpace.width,
-      availableSpace.height,
-      minFontSize,
-      maxFontSize,
-      resolution,
-      fitMode,
-      lineMode
-    );
-
-    if (optimalSize !== fontSize) {
-      textRef.current.style.fontSize = `${optimalSize}px`;
-      setFontSize(optimalSize);
-    }
-
-    initialCalcDoneRef.current = true;
-    calculatingRef.current = false;
-  // fontSize intentionally omitted: the initialCalcDoneRef guard replaces the old
-  // `fontSize !== maxFontSize` check, keeping this callback stable across renders so
-  // the useLayoutEffect below only reconnects observers when actual options change.
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [minFontSize, maxFontSize, resolution, fitMode, lineMode]);
-
-  const handleResize = useCallback(() => {
-    if (debounceTimerRef.current) {
-      clearTimeout(debounceTimerRef.current);
-    }
-
-    debounceTimerRef.current = setTimeout(() => {
-      if (frameRef.current) {
-        cancelAnimationFrame(frameRef.current);
-      }
-
-      frameRef.current = requestAnimationFrame(() => {
-        calculateFontSize();
-      });
-    }, debounceDelay);
-  }, [calculateFontSize, debounceDelay]);
+import { FitTextController, FitTextRef, FitTextState, RecalculateOptions, UseFitTextOptions, UseFitTextReturn } from './types';
+import { createFitText } from './createFitText';
+import { useFitTextCache } from './FitTextCacheProvider';
+
+// Callback ref that also exposes `.current`, so it can be passed to `ref={...}` like a
+// RefObject while still notifying the hook whenever React attaches or detaches a node.
+const useNodeRef = (onNodeChange: (node: HTMLElement | null) => void): FitTextRef => {
+  const [ref] = useState<FitTextRef>(() => {
+    const callback = ((node: HTMLElement | null) => {
+      callback.current = node;
+      onNodeChange(node);
+    }) as FitTextRef;
+    callback.current = null;
+    return callback;
+  });
+  return ref;
+};
 
+export const useFitText = (options: UseFitTextOptions = {}): UseFitTextReturn => {
+  const providedCache = useFitTextCache();
+  const [containerNode, setContainerNode] = useState<HTMLElement | null>(null);
+  const [textNode, setTextNode] = useState<HTMLElement | null>(null);
+  const containerRef = useNodeRef(setContainerNode);
+  const textRef = useNodeRef(setTextNode);
+  const [state, setState] = useState<FitTextState>(() => ({
+    fontSize: options.maxFontSize ?? 100,
+    overflowing: false,
+    status: 'idle',
+    isReady: false,
+    result: null,
+  }));
+  const controllerRef = useRef<FitTextController | null>(null);
+
+  const resolvedOptions = { ...options, cache: options.cache ?? providedCache };
+  // Read when a controller is created, so swapping nodes doesn't depend on the options.
+  // Updated in the first layout effect rather than during render, so options of a render
+  // React discards never reach the controller.
+  const optionsRef = useRef(resolvedOptions);
   useLayoutEffect(() => {
-    prevDimensionsRef.current = null;
-    initialCalcDoneRef.current = false;
-    calculateFontSize();
+    optionsRef.current = resolvedOptions;
+  });
 
-    if (containerRef.current) {
-      resizeObserverRef.current = new ResizeObserver(handleResize);
-      resizeObserverRef.current.observe(containerRef.current);
+  // One controller per pair of nodes. Re-created whenever React attaches a different node to
+  // either ref, so elements that mount late (conditionals, portals, Suspense) are still fitted.
+  useLayoutEffect(() => {
+    if (!containerNode || !textNode) {
+      return;
     }
 
-    if (textRef.current) {
-      mutationObserverRef.current = new MutationObserver(handleResize);
-      mutationObserverRef.current.observe(textRef.current, {
-        childList: true,
-        subtree: true,
-        characterData: true,
-      });
-    }
+    const controller = createFitText(containerNode, textNode, optionsRef.current);
+    controllerRef.current = controller;
+    setState(controller.getState());
+    const unsubscribe = controller.subscribe(setState);
 
     return () => {
-      resizeObserverRef.current?.disconnect();
-      mutationObserverRef.current?.disconnect();
-      if (frameRef.current) cancelAnimationFrame(frameRef.current);
-      if (debounceTimerRef.current) clearTimeout(debounceTimerRef.current);
+      unsubscribe();
+      controller.destroy();
+      controllerRef.current = null;
     };
-  }, [calculateFontSize, handleResize]);
+  }, [containerNode, textNode]);
 
-  return { containerRef, textRef, fontSize };
+  // The controller compares options itself and only refits when the result can change, so
+  // inline arrays and callbacks can be passed on every render. Each render's options replace
+  // the last ones, so an option that is no longer passed goes back to its default.
+  useLayoutEffect(() => {
+    controllerRef.current?.replaceOptions(optionsRef.current);
+  });
+
+  const recalculate = useCallback((recalculateOptions?: RecalculateOptions) => {
+    controllerRef.current?.update(recalculateOptions);
+  }, []);
+
+  const reset = useCallback(() => {
+    controllerRef.current?.reset();
+  }, []);
+
+  return {
+    containerRef,
+    textRef,
+    fontSize: state.fontSize,
+    overflowing: state.overflowing,
+    status: state.status,
+    isReady: state.isReady,
+    recalculate,
+    reset
+  };
 };
@@ -0,0 +1,302 @@
+import { useCallback, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import {
+  FitTextGroupMember,
+  FitTextGroupReducer,
+  UseFitTextGroupOptions,
+  UseFitTextGroupReturn
+} from './types';
+import {
+  MANAGED_CONTAINER_PROPERTIES,
+  MANAGED_TEXT_PROPERTIES,
+  StyleSnapshot,
+  applyFontSize,
+  restoreStyles,
+  snapshotStyles
+} from './output';
+import { useFitTextCache } from './FitTextCacheProvider';
+import { ObservedSize, observeResize } from './observer';
+import { scheduleFit } from './scheduler';
+import { applyLineModeStyles, calculateOptimalFontSize, getAvailableContentSpace } from './utils';
+
+interface GroupMemberState {
+  container: HTMLElement | null;
+  text: HTMLElement | null;
+  containerSnapshot: StyleSnapshot | null;
+  textSnapshot: StyleSnapshot | null;
+  observedSize: ObservedSize | null;
+  unobserveResize: (() => void) | null;
+  refs: FitTextGroupMember;
+}
+
+const restoreMemberStyles = (entry: GroupMemberState): void => {
+  if (entry.container && entry.containerSnapshot) restoreStyles(entry.container, entry.containerSnapshot);
+  if (entry.text && entry.textSnapshot) restoreStyles(entry.text, entry.textSnapshot);
+};
+
+const unobserveContainer = (entry: GroupMemberState): void => {
+  entry.unobserveResize?.();
+  entry.unobserveResize = null;
+  entry.observedSize = null;
+};
+
+const reduceFontSizes = (sizes: number[], reducer: FitTextGroupReducer): number => {
+  if (typeof reducer === 'function') {
+    return reducer(sizes);
+  }
+
+  if (reducer === 'median') {
+    const sorted = [...sizes].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  }
+
+  return Math.min(...sizes);
+};
+
+export const useFitTextGroup = ({
+  minFontSize = 1,
+  maxFontSize = 100,
+  resolution = 0.5,
+  fitMode = 'both',
+  lineMode = 'multi',
+  debounceDelay = 100,
+  maxLines,
+  minLines,
+  breakWords = true,
+  hyphenate = false,
+  allowedSizes,
+  output = 'inline',
+  cssVariableTarget = 'container',
+  applyLineStyles = true,
+  cache: cacheOption,
+  measurer,
+  reducer = 'min'
+}: UseFitTextGroupOptions = {}): UseFitTextGroupReturn => {
+  const providedCache = useFitTextCache();
+  const cache = cacheOption ?? providedCache;
+  const [fontSize, setFontSize] = useState<number>(maxFontSize);
+  const membersRef = useRef(new Map<string | number, GroupMemberState>());
+  // True while the layout effect below is connected, so late containers join the shared observer.
+  const observingRef = useRef<boolean>(false);
+  const mutationObserverRef = useRef<MutationObserver | null>(null);
+  const cancelScheduledFitRef = useRef<(() => void) | null>(null);
+  const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
+  // Set when members join or leave; flushed synchronously by the layout effect of the
+  // commit that attached them, or by the debounced handler for out-of-band mounts.
+  const dirtyRef = useRef<boolean>(false);
+
+  const allowedSizesKey = allowedSizes?.join(',');
+  const steps = useMemo(() => allowedSizesKey?.split(',').map(Number), [allowedSizesKey]);
+
+  // Read through a ref so an inline reducer doesn't reconnect the observers every render.
+  // Updated in a layout effect declared before the ones that fit, not during render.
+  const reducerRef = useRef(reducer);
+  useLayoutEffect(() => {
+    reducerRef.current = reducer;
+  });
+
+  // Read phase: the reduced size across members, or null when no member has space yet.
+  const measureGroupFontSize = useCallback((): number | null => {
+    dirtyRef.current = false;
+    const sizes: number[] = [];
+
+    membersRef.current.forEach(({ container, text, observedSize }) => {
+      if (!container || !text) {
+        return;
+      }
+
+      const availableSpace = observedSize ?? getAvailableContentSpace(container);
+      if (availableSpace.width <= 0 || availableSpace.height <= 0) {
+        return;
+      }
+
+      sizes.push(calculateOptimalFontSize(
+        text,
+        availableSpace.width,
+        availableSpace.height,
+        minFontSize,
+        maxFontSize,
+        resolution,
+        fitMode,
+        lineMode,
+        { maxLines, minLines, allowedSizes: steps, cache, measurer, breakWords, hyphenate }
+      ));
+    });
+
+    if (sizes.length === 0) {
+      return null;
+    }
+
+    const groupSize = Math.max(minFontSize, Math.min(maxFontSize, reduceFontSizes(sizes, reducerRef.current)));
+
+    // A median or custom reducer can land between steps; snap down onto the type scale.
+    if (steps) {
+      return steps.filter(step => step <= groupSize).reduce((a, b) => Math.max(a, b), Math.min(...steps));
+    }
+
+    return groupSize;
+  }, [minFontSize, maxFontSize, resolution, fitMode, lineMode, maxLines, minLines, breakWords, hyphenate, steps, cache, measurer]);
+
+  // Write phase: the shared size and line styles for every member.
+  const applyGroupFontSize = useCallback((groupSize: number) => {
+    membersRef.current.forEach(({ container, text }) => {
+      if (text && applyLineStyles) {
+        applyLineModeStyles(text, lineMode, { breakWords, hyphenate });
+      }
+      applyFontSize(container, text, groupSize, output, cssVariableTarget);
+    });
+    setFontSize(groupSize);
+  }, [lineMode, breakWords, hyphenate, output, cssVariableTarget, applyLineStyles]);
+
+  const calculateGroupFontSize = useCallback(() => {
+    const groupSize = measureGroupFontSize();
+    if (groupSize !== null) {
+      applyGroupFontSize(groupSize);
+    }
+  }, [measureGroupFontSize, applyGroupFontSize]);
+
+  const handleResize = useCallback(() => {
+    if (debounceTimerRef.current) {
+      clearTimeout(debounceTimerRef.current);
+    }
+
+    debounceTimerRef.current = setTimeout(() => {
+      cancelScheduledFitRef.current?.();
+      cancelScheduledFitRef.current = scheduleFit({
+        measure: measureGroupFontSize,
+        apply: (groupSize) => {
+          cancelScheduledFitRef.current = null;
+          if (groupSize !== null) {
+            applyGroupFontSize(groupSize);
+          }
+        },
+      });
+    }, debounceDelay);
+  }, [measureGroupFontSize, applyGroupFontSize, debounceDelay]);
+
+  const handleResizeRef = useRef(handleResize);
+  handleResizeRef.current = handleResize;
+
+  const observeContainer = useCallback((entry: GroupMemberState) => {
+    unobserveContainer(entry);
+    if (!observingRef.current || !entry.container) {
+      return;
+    }
+
+    entry.unobserveResize = observeResize(entry.container, (size) => {
+      entry.observedSize = size;
+      handleResizeRef.current();
+    });
+  }, []);
+
+  // MutationObserver has no unobserve, so text membership changes rebuild its targets.
+  const observeTexts = useCallback(() => {
+    const observer = mutationObserverRef.current;
+    if (!observer) {
+      return;
+    }
+
+    observer.disconnect();
+    membersRef.current.forEach(({ text }) => {
+      if (text) {
+        observer.observe(text, { childList: true, subtree: true, characterData: true });
+      }
+    });
+  }, []);
+
+  const attachNode = useCallback((
+    key: string | number,
+    entry: GroupMemberState,
+    kind: 'container' | 'text',
+    node: HTMLElement | null
+  ) => {
+    if (entry[kind] === node) {
+      return;
+    }
+
+    const previous = entry[kind];
+    const snapshotKey = kind === 'container' ? 'containerSnapshot' : 'textSnapshot';
+    const snapshot = entry[snapshotKey];
+    if (previous && snapshot) {
+      restoreStyles(previous, snapshot);
+    }
+    entry[kind] = node;
+    entry[snapshotKey] = node
+      ? snapshotStyles(node, kind === 'container' ? MANAGED_CONTAINER_PROPERTIES : MANAGED_TEXT_PROPERTIES)
+      : null;
+
+    // A member whose nodes have both detached is forgotten, so keys from changing data
+    // don't pile up; the same refs rejoin the group if React attaches them again.
+    const members = membersRef.current;
+    if (!entry.container && !entry.text) {
+      members.delete(key);
+    } else if (!members.has(key)) {
+      members.set(key, entry);
+    }
+
+    if (kind === 'container') {
+      observeContainer(entry);
+    } else {
+      observeTexts();
+    }
+
+    dirtyRef.current = true;
+    handleResizeRef.current();
+  }, [observeContainer, observeTexts]);
+
+  const member = useCallback((key: string | number): FitTextGroupMember => {
+    let entry = membersRef.current.get(key);
+
+    if (!entry) {
+      const created: GroupMemberState = {
+        container: null,
+        text: null,
+        containerSnapshot: null,
+        textSnapshot: null,
+        observedSize: null,
+        unobserveResize: null,
+        refs: {
+          containerRef: (node) => attachNode(key, created, 'container', node),
+          textRef: (node) => attachNode(key, created, 'text', node),
+        },
+      };
+      entry = created;
+      membersRef.current.set(key, entry);
+    }
+
+    return entry.refs;
+  }, [attachNode]);
+
+  useLayoutEffect(() => {
+    const members = membersRef.current;
+    calculateGroupFontSize();
+
+    observingRef.current = true;
+    mutationObserverRef.current = new MutationObserver(handleResize);
+
+    members.forEach(observeContainer);
+    observeTexts();
+
+    return () => {
+      // Options may change which properties get written, so start the next pass from the originals.
+      members.forEach(restoreMemberStyles);
+      observingRef.current = false;
+      members.forEach(unobserveContainer);
+      mutationObserverRef.current?.disconnect();
+      mutationObserverRef.current = null;
+      cancelScheduledFitRef.current?.();
+      cancelScheduledFitRef.current = null;
+      if (debounceTimerRef.current) clearTimeout(debounceTimerRef.current);
+    };
+  }, [calculateGroupFontSize, handleResize, observeContainer, observeTexts]);
+
+  // Members that joined or left during this commit are fitted before paint.
+  useLayoutEffect(() => {
+    if (dirtyRef.current) {
+      if (debounceTimerRef.current) clearTimeout(debounceTimerRef.current);
+      calculateGroupFontSize();
+    }
+  });
+
+  return { fontSize, member };
+};
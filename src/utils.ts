@@ -1,55 +1,136 @@
-import { FitMode, LineMode } from './types';
+import { FitCalculationOptions, FitMode, FitResult, LineBreaking, LineMode, Measurer, TextMeasurement } from './types';
+import { defaultCache, hashText } from './cache';
+import { createCanvasMeasurer, createDomMeasurer, getMeasurerFont, isVerticalWritingMode } from './measurer';
 
 interface TextSize {
   width: number;
   height: number;
 }
 
-interface CacheEntry {
-  fontSize: number;
-  timestamp: number;
-}
-
-const fontSizeCache = new Map<string, CacheEntry>();
-const CACHE_LIFETIME_MS = 30000;
 const MAX_ITERATIONS = 20;
 
-// Persistent host for all measurement clones — reused across calls so we never
-// append/remove directly on document.body, which is the most expensive reflow point.
-let _measurementHost: HTMLElement | null = null;
+const parseFontFamilies = (fontFamily: string): string[] =>
+  fontFamily
+    .split(',')
+    .map(family => family.trim().replace(/^["']|["']$/g, '').toLowerCase())
+    .filter(Boolean);
+
+const getFontFaceSet = (): FontFaceSet | null =>
+  typeof document !== 'undefined' && 'fonts' in document ? document.fonts : null;
+
+const getFontShorthand = (element: HTMLElement): string => {
+  const computed = window.getComputedStyle(element);
+  return `${computed.fontStyle} ${computed.fontWeight} ${computed.fontSize} ${computed.fontFamily}`;
+};
+
+export const elementUsesFontFamily = (element: HTMLElement, families: string[]): boolean => {
+  const wanted = families.flatMap(parseFontFamilies);
+  return parseFontFamilies(window.getComputedStyle(element).fontFamily)
+    .some(family => wanted.includes(family));
+};
+
+export const areFontsLoaded = (element: HTMLElement): boolean => {
+  const fonts = getFontFaceSet();
+  if (!fonts) {
+    return true;
+  }
+
+  try {
+    return fonts.check(getFontShorthand(element), element.textContent || undefined);
+  } catch {
+    return true;
+  }
+};
 
-const getMeasurementHost = (): HTMLElement => {
-  if (!_measurementHost || !document.body.contains(_measurementHost)) {
-    _measurementHost = document.createElement('div');
-    _measurementHost.style.cssText =
-      'position:fixed;visibility:hidden;pointer-events:none;top:0;left:0;width:0;height:0;overflow:visible;';
-    document.body.appendChild(_measurementHost);
+export const loadFonts = (element: HTMLElement): Promise<void> => {
+  const fonts = getFontFaceSet();
+  if (!fonts) {
+    return Promise.resolve();
   }
-  return _measurementHost;
+
+  return fonts
+    .load(getFontShorthand(element), element.textContent || undefined)
+    .then(() => undefined, () => undefined);
 };
 
-const FONT_STYLE_PROPS = [
-  'fontFamily', 'fontWeight', 'fontStyle', 'fontVariant',
-  'letterSpacing', 'textTransform', 'wordSpacing',
-] as const;
+/**
+ * Calls listener with the families of font faces that finished loading, both for
+ * `loadingdone` events and once `document.fonts.ready` settles. Returns an unsubscribe.
+ */
+export const subscribeToFontLoads = (listener: (families: string[]) => void): (() => void) => {
+  const fonts = getFontFaceSet();
+  if (!fonts) {
+    return () => {};
+  }
 
-const copyComputedFontStyles = (source: HTMLElement, target: HTMLElement): void => {
-  const computed = window.getComputedStyle(source);
+  let active = true;
+  const handleLoadingDone = (event: Event) => {
+    const families = (event as FontFaceSetLoadEvent).fontfaces.map(face => face.family);
+    if (families.length > 0) {
+      listener(families);
+    }
+  };
 
-  FONT_STYLE_PROPS.forEach(prop => {
-    (target.style as unknown as Record<string, string>)[prop] = computed[prop as keyof CSSStyleDeclaration] as string;
+  fonts.addEventListener('loadingdone', handleLoadingDone);
+
+  if (fonts.status === 'loading') {
+    fonts.ready.then(() => {
+      if (!active) return;
+      const families: string[] = [];
+      fonts.forEach(face => {
+        if (face.status === 'loaded') families.push(face.family);
+      });
+      if (families.length > 0) {
+        listener(families);
+      }
+    });
+  }
+
+  return () => {
+    active = false;
+    fonts.removeEventListener('loadingdone', handleLoadingDone);
+  };
+};
+
+// The loaded faces of the element's families. A computed font-family reads the same before and
+// after a web font arrives, so this is what tells fallback measurements apart from real ones,
+// including for entries persisted by an earlier page load.
+const getFontFingerprint = (fontFamily: string): string => {
+  const fonts = getFontFaceSet();
+  if (!fonts) {
+    return '';
+  }
+
+  const families = parseFontFamilies(fontFamily);
+  const loaded: string[] = [];
+  fonts.forEach(face => {
+    if (face.status === 'loaded' && families.includes(parseFontFamilies(face.family)[0])) {
+      loaded.push(`${face.family} ${face.weight} ${face.style} ${face.stretch}`);
+    }
   });
+  return loaded.sort().join(',');
+};
 
-  // lineHeight from getComputedStyle is always a px value (e.g. "125px" at 100px font-size).
-  // Copying it directly would freeze the clone's line-height at that px value regardless of
-  // what font-size the binary search tries, producing wrong scrollHeight measurements.
-  // Convert to a unitless ratio so it scales correctly at every tested font size.
-  const computedFontSizePx = parseFloat(computed.fontSize);
-  const computedLineHeightPx = parseFloat(computed.lineHeight);
-  if (!isNaN(computedLineHeightPx) && !isNaN(computedFontSizePx) && computedFontSizePx > 0) {
-    target.style.lineHeight = String(computedLineHeightPx / computedFontSizePx);
+// Only the properties each line mode depends on are written; anything else is left to the
+// page's stylesheets. Clipping a single line is up to the `overflow` option. The hooks
+// snapshot and restore these properties themselves.
+export const applyLineModeStyles = (
+  element: HTMLElement,
+  lineMode: LineMode,
+  { breakWords = true, hyphenate = false }: Pick<FitCalculationOptions, 'breakWords' | 'hyphenate'> = {}
+): void => {
+  if (lineMode === 'single') {
+    element.style.setProperty('white-space', 'nowrap');
+  } else if (breakWords) {
+    element.style.setProperty('white-space', 'normal');
+    element.style.setProperty('overflow-wrap', 'break-word');
   } else {
-    target.style.lineHeight = 'normal';
+    element.style.setProperty('white-space', 'normal');
+    element.style.setProperty('overflow-wrap', 'normal');
+    element.style.setProperty('word-break', 'normal');
+    if (hyphenate) {
+      element.style.setProperty('hyphens', 'auto');
+    }
   }
 };
 
@@ -80,14 +161,29 @@ export const sizeFits = (
   return fitsWidth && fitsHeight;
 };
 
+// Lays the text out at a candidate size; bound to one text, font and width per fit.
+type MeasureAt = (fontSize: number) => TextMeasurement;
+
+const measurementFits = (
+  measurement: TextMeasurement,
+  containerWidth: number,
+  containerHeight: number,
+  fitMode: FitMode,
+  maxLines: number
+): boolean => {
+  const fits = sizeFits(measurement, containerWidth, containerHeight, fitMode);
+  return fits && (maxLines === Infinity || measurement.lines <= maxLines);
+};
+
 const binarySearchFontSize = (
-  clone: HTMLElement,
+  measureAt: MeasureAt,
   low: number,
   high: number,
   resolution: number,
   containerWidth: number,
   containerHeight: number,
-  fitMode: FitMode
+  fitMode: FitMode,
+  maxLines: number = Infinity
 ): number => {
   let bestSize = low;
   let iterations = 0;
@@ -95,11 +191,7 @@ const binarySearchFontSize = (
   while (iterations < MAX_ITERATIONS && high - low > resolution) {
     const mid = (low + high) / 2;
 
-    clone.style.fontSize = `${mid}px`;
-    const currentWidth = clone.scrollWidth;
-    const currentHeight = clone.scrollHeight;
-
-    if (sizeFits({ width: currentWidth, height: currentHeight }, containerWidth, containerHeight, fitMode)) {
+    if (measurementFits(measureAt(mid), containerWidth, containerHeight, fitMode, maxLines)) {
       bestSize = mid;
       low = mid + resolution;
     } else {
@@ -112,17 +204,6 @@ const binarySearchFontSize = (
   return bestSize;
 };
 
-const cleanupCache = (): void => {
-  if (Math.random() < 0.001) {
-    const expiredTime = Date.now() - CACHE_LIFETIME_MS;
-    for (const [key, entry] of fontSizeCache.entries()) {
-      if (entry.timestamp < expiredTime) {
-        fontSizeCache.delete(key);
-      }
-    }
-  }
-};
-
 const createCacheKey = (
   containerWidth: number,
   containerHeight: number,
@@ -132,42 +213,18 @@ const createCacheKey = (
   minFontSize: number,
   maxFontSize: number,
   resolution: number,
-  fontKey: string
+  fontKey: string,
+  maxLines: number,
+  minLines: number,
+  allowedSizesKey: string,
+  nestedScalesKey: string,
+  lineBreakingKey: string
 ): string => {
-  return `${Math.round(containerWidth)},${Math.round(containerHeight)},${minFontSize},${maxFontSize},${resolution},${fitMode},${lineMode},${fontKey},${text}`;
-};
-
-const createTestClone = (
-  textElement: HTMLElement,
-  containerWidth: number,
-  lineMode: LineMode
-): HTMLElement => {
-  const clone = textElement.cloneNode(true) as HTMLElement;
-
-  const lineStyles = lineMode === 'single'
-    ? 'white-space: nowrap; overflow: hidden; text-overflow: ellipsis;'
-    : 'white-space: normal; word-wrap: break-word; overflow-wrap: break-word;';
-
-  clone.style.cssText = `
-    position: absolute;
-    top: 0;
-    left: 0;
-    width: ${containerWidth}px;
-    height: auto;
-    margin: 0;
-    padding: 0;
-    border: 0;
-    box-sizing: border-box;
-    ${lineStyles}
-  `;
-
-  copyComputedFontStyles(textElement, clone);
-  getMeasurementHost().appendChild(clone);
-  return clone;
+  return `${Math.round(containerWidth)},${Math.round(containerHeight)},${minFontSize},${maxFontSize},${resolution},${fitMode},${lineMode},${maxLines},${minLines},${allowedSizesKey},${nestedScalesKey},${lineBreakingKey},${fontKey},${text.length}:${hashText(text)}`;
 };
 
 const calculateSingleLineFontSize = (
-  clone: HTMLElement,
+  measureAt: MeasureAt,
   minFontSize: number,
   maxFontSize: number,
   resolution: number,
@@ -175,33 +232,108 @@ const calculateSingleLineFontSize = (
   containerHeight: number,
   fitMode: FitMode
 ): number => {
-  clone.style.fontSize = `${maxFontSize}px`;
-  const currentWidth = clone.scrollWidth;
-  const currentHeight = clone.scrollHeight;
-
-  if (sizeFits({ width: currentWidth, height: currentHeight }, containerWidth, containerHeight, fitMode)) {
+  if (sizeFits(measureAt(maxFontSize), containerWidth, containerHeight, fitMode)) {
     return maxFontSize;
   }
 
-  return binarySearchFontSize(clone, minFontSize, maxFontSize, resolution, containerWidth, containerHeight, fitMode);
+  return binarySearchFontSize(measureAt, minFontSize, maxFontSize, resolution, containerWidth, containerHeight, fitMode);
+};
+
+// Line count grows with font size, so the smallest size that reaches minLines is found by
+// searching upwards from the fitted size. Every size above it is too large to fit, so a
+// raised result always overflows. If even maxFontSize renders fewer lines, the fitted size is kept.
+const raiseToMinLines = (
+  measureAt: MeasureAt,
+  fittedSize: number,
+  maxFontSize: number,
+  resolution: number,
+  minLines: number
+): number => {
+  if (measureAt(fittedSize).lines >= minLines) {
+    return fittedSize;
+  }
+
+  if (measureAt(maxFontSize).lines < minLines) {
+    return fittedSize;
+  }
+
+  let low = fittedSize;
+  let high = maxFontSize;
+  let iterations = 0;
+
+  while (iterations < MAX_ITERATIONS && high - low > resolution) {
+    const mid = (low + high) / 2;
+
+    if (measureAt(mid).lines >= minLines) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+
+    iterations++;
+  }
+
+  return high;
+};
+
+// Discrete counterpart of binarySearchFontSize: returns the index of the largest step in
+// the ascending `steps` list that fits, or 0 when none does.
+const searchAllowedSizes = (
+  measureAt: MeasureAt,
+  steps: number[],
+  containerWidth: number,
+  containerHeight: number,
+  fitMode: FitMode,
+  maxLines: number
+): number => {
+  let low = 0;
+  let high = steps.length - 1;
+  let bestIndex = 0;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+
+    if (measurementFits(measureAt(steps[mid]), containerWidth, containerHeight, fitMode, maxLines)) {
+      bestIndex = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return bestIndex;
+};
+
+const raiseStepToMinLines = (
+  measureAt: MeasureAt,
+  steps: number[],
+  fittedIndex: number,
+  minLines: number
+): number => {
+  if (measureAt(steps[steps.length - 1]).lines < minLines) {
+    return fittedIndex;
+  }
+
+  let index = fittedIndex;
+  while (index < steps.length - 1 && measureAt(steps[index]).lines < minLines) {
+    index++;
+  }
+
+  return index;
 };
 
 const calculateMultiLineFontSize = (
-  clone: HTMLElement,
+  measureAt: MeasureAt,
   text: string,
   minFontSize: number,
   maxFontSize: number,
   resolution: number,
   containerWidth: number,
   containerHeight: number,
-  fitMode: FitMode
+  fitMode: FitMode,
+  maxLines: number = Infinity
 ): number => {
-  clone.style.fontSize = `${maxFontSize}px`;
-
-  let currentWidth = clone.scrollWidth;
-  let currentHeight = clone.scrollHeight;
-
-  if (sizeFits({ width: currentWidth, height: currentHeight }, containerWidth, containerHeight, fitMode)) {
+  if (measurementFits(measureAt(maxFontSize), containerWidth, containerHeight, fitMode, maxLines)) {
     return maxFontSize;
   }
 
@@ -210,18 +342,14 @@ const calculateMultiLineFontSize = (
   const areaRatio = Math.sqrt(containerArea / estimatedCharArea);
   const initialGuess = Math.max(minFontSize, Math.min(maxFontSize, areaRatio * 0.8));
 
-  clone.style.fontSize = `${initialGuess}px`;
-  currentWidth = clone.scrollWidth;
-  currentHeight = clone.scrollHeight;
-
-  if (sizeFits({ width: currentWidth, height: currentHeight }, containerWidth, containerHeight, fitMode)) {
-    return binarySearchFontSize(clone, initialGuess, maxFontSize, resolution, containerWidth, containerHeight, fitMode);
+  if (measurementFits(measureAt(initialGuess), containerWidth, containerHeight, fitMode, maxLines)) {
+    return binarySearchFontSize(measureAt, initialGuess, maxFontSize, resolution, containerWidth, containerHeight, fitMode, maxLines);
   } else {
-    return binarySearchFontSize(clone, minFontSize, initialGuess, resolution, containerWidth, containerHeight, fitMode);
+    return binarySearchFontSize(measureAt, minFontSize, initialGuess, resolution, containerWidth, containerHeight, fitMode, maxLines);
   }
 };
 
-export const calculateOptimalFontSize = (
+export const calculateFitResult = (
   textElement: HTMLElement,
   containerWidth: number,
   containerHeight: number,
@@ -229,32 +357,239 @@ export const calculateOptimalFontSize = (
   maxFontSize: number,
   resolution: number,
   fitMode: FitMode,
-  lineMode: LineMode = 'multi'
-): number => {
+  lineMode: LineMode = 'multi',
+  bypassCache: boolean = false,
+  {
+    maxLines = Infinity,
+    minLines = 0,
+    allowedSizes,
+    cache = defaultCache,
+    measurer,
+    nestedScales,
+    breakWords = true,
+    hyphenate = false,
+  }: FitCalculationOptions = {}
+): FitResult => {
   const text = textElement.textContent || '';
   const computed = window.getComputedStyle(textElement);
-  const fontKey = `${computed.fontFamily}|${computed.fontWeight}|${computed.fontStyle}|${computed.letterSpacing}|${computed.lineHeight}`;
-  const cacheKey = createCacheKey(containerWidth, containerHeight, text, fitMode, lineMode, minFontSize, maxFontSize, resolution, fontKey);
-
-  const now = Date.now();
-  const cached = fontSizeCache.get(cacheKey);
-  if (cached && now - cached.timestamp < CACHE_LIFETIME_MS) {
-    return cached.fontSize;
+  // Whole words only matter once lines wrap; a single line never breaks inside a word.
+  const wholeWords = lineMode === 'multi' && !breakWords;
+  const breaking: LineBreaking | undefined = wholeWords
+    ? { breakWords, hyphenate, lang: hyphenate ? textElement.closest('[lang]')?.getAttribute('lang') ?? '' : '' }
+    : undefined;
+  const fontKey = `${computed.fontFamily}|${computed.fontWeight}|${computed.fontStyle}|${computed.letterSpacing}|${computed.lineHeight}|${computed.writingMode}|${getFontFingerprint(computed.fontFamily)}`;
+  const cacheKey = createCacheKey(
+    containerWidth, containerHeight, text, fitMode, lineMode, minFontSize, maxFontSize, resolution, fontKey, maxLines, minLines,
+    allowedSizes?.join(' ') ?? '', nestedScales?.join(' ') ?? '',
+    breaking ? `${breaking.hyphenate}:${breaking.lang}` : ''
+  );
+
+  const cached = bypassCache ? undefined : cache.get(cacheKey);
+  if (cached) {
+    return cached;
   }
 
-  cleanupCache();
+  // Allowed sizes outside [minFontSize, maxFontSize] are ignored; with none left the
+  // continuous search is used instead.
+  const steps = allowedSizes
+    ? [...new Set(allowedSizes)].filter(size => size >= minFontSize && size <= maxFontSize).sort((a, b) => a - b)
+    : [];
+  const lowerBound = steps.length > 0 ? steps[0] : minFontSize;
+  const upperBound = steps.length > 0 ? steps[steps.length - 1] : maxFontSize;
+
+  const font = getMeasurerFont(computed);
 
-  const clone = createTestClone(textElement, containerWidth, lineMode);
+  // The search runs along and across the lines, which in vertical text are the container's
+  // height and width.
+  const vertical = isVerticalWritingMode(font.writingMode);
+  const inlineSize = vertical ? containerHeight : containerWidth;
+  const blockSize = vertical ? containerWidth : containerHeight;
+
+  // A word that doesn't fit on a line sticks out of it, so even a height fit has to check
+  // that the lines stay within the width.
+  const searchFitMode: FitMode = wholeWords && fitMode === 'height' ? 'both' : fitMode;
+
+  // Plain single lines are measured on a canvas; anything else goes to the DOM clone.
+  const activeMeasurer = measurer ?? createCanvasMeasurer(textElement, createDomMeasurer(textElement, nestedScales, breaking));
+  const measureAt: MeasureAt = (fontSize) => activeMeasurer.measure(text, font, fontSize, inlineSize, lineMode);
 
   try {
-    const bestSize = lineMode === 'single'
-      ? calculateSingleLineFontSize(clone, minFontSize, maxFontSize, resolution, containerWidth, containerHeight, fitMode)
-      : calculateMultiLineFontSize(clone, text, minFontSize, maxFontSize, resolution, containerWidth, containerHeight, fitMode);
+    let bestSize: number;
+
+    if (steps.length > 0) {
+      let stepIndex = searchAllowedSizes(
+        measureAt, steps, inlineSize, blockSize, searchFitMode, lineMode === 'multi' ? maxLines : Infinity
+      );
+      if (lineMode === 'multi' && minLines > 1) {
+        stepIndex = raiseStepToMinLines(measureAt, steps, stepIndex, minLines);
+      }
+      bestSize = steps[stepIndex];
+    } else {
+      bestSize = lineMode === 'single'
+        ? calculateSingleLineFontSize(measureAt, minFontSize, maxFontSize, resolution, inlineSize, blockSize, fitMode)
+        : calculateMultiLineFontSize(
+          measureAt, text, minFontSize, maxFontSize, resolution, inlineSize, blockSize, searchFitMode, maxLines
+        );
+
+      if (lineMode === 'multi' && minLines > 1) {
+        bestSize = raiseToMinLines(measureAt, bestSize, maxFontSize, resolution, minLines);
+      }
+    }
 
     const clampedSize = Math.max(minFontSize, Math.min(maxFontSize, bestSize));
-    fontSizeCache.set(cacheKey, { fontSize: clampedSize, timestamp: now });
-    return clampedSize;
+
+    // Re-measure at the final size so callers can tell whether the text really fits
+    // or the search simply bottomed out at minFontSize.
+    const { width: contentInlineSize, height: contentBlockSize, lines } = measureAt(clampedSize);
+
+    const result: FitResult = {
+      fontSize: clampedSize,
+      contentWidth: vertical ? contentBlockSize : contentInlineSize,
+      contentHeight: vertical ? contentInlineSize : contentBlockSize,
+      availableWidth: containerWidth,
+      availableHeight: containerHeight,
+      clampedToMin: clampedSize <= lowerBound,
+      clampedToMax: clampedSize >= upperBound,
+      overflowing: !sizeFits({ width: contentInlineSize, height: contentBlockSize }, inlineSize, blockSize, searchFitMode)
+        || lines > maxLines,
+      lines,
+    };
+
+    if (steps.length > 0 && allowedSizes) {
+      result.step = allowedSizes.indexOf(clampedSize);
+    }
+
+    cache.set(cacheKey, result);
+    return result;
+  } finally {
+    activeMeasurer.release?.();
+  }
+};
+
+export const calculateOptimalFontSize = (
+  textElement: HTMLElement,
+  containerWidth: number,
+  containerHeight: number,
+  minFontSize: number,
+  maxFontSize: number,
+  resolution: number,
+  fitMode: FitMode,
+  lineMode: LineMode = 'multi',
+  options: FitCalculationOptions = {}
+): number => {
+  return calculateFitResult(
+    textElement, containerWidth, containerHeight, minFontSize, maxFontSize, resolution, fitMode, lineMode, false, options
+  ).fontSize;
+};
+
+/**
+ * Transform strategy: measures the content's natural box at its current font size and
+ * derives a scale factor instead of searching font sizes, so nested fixed-size content
+ * (icons, badges, images) shrinks along with the text. The scale is bounded so the
+ * effective font size stays within [minFontSize, maxFontSize]. Wrapped text is laid out at
+ * the line length that spans the container once scaled (`wrapSize`), so the search runs over
+ * scales, re-measuring the wrapped box at each.
+ */
+export const calculateTransformFitResult = (
+  textElement: HTMLElement,
+  containerWidth: number,
+  containerHeight: number,
+  minFontSize: number,
+  maxFontSize: number,
+  fitMode: FitMode,
+  lineMode: LineMode = 'multi',
+  preserveAspectRatio: boolean = true,
+  measurer: Measurer = createDomMeasurer(textElement)
+): FitResult => {
+  const text = textElement.textContent || '';
+  const computed = window.getComputedStyle(textElement);
+  const font = getMeasurerFont(computed);
+  const baseFontSize = parseFloat(computed.fontSize) || 16;
+  const minScale = minFontSize / baseFontSize;
+  const maxScale = maxFontSize / baseFontSize;
+  const vertical = isVerticalWritingMode(font.writingMode);
+  const inlineSize = vertical ? containerHeight : containerWidth;
+  const blockSize = vertical ? containerWidth : containerHeight;
+  const clamp = (scale: number) => Math.max(minScale, Math.min(maxScale, scale));
+
+  try {
+    let natural: TextMeasurement;
+    let scaleInline: number;
+    let scaleBlock: number;
+    let wrapSize: number | undefined;
+
+    if (lineMode === 'single') {
+      natural = measurer.measure(text, font, baseFontSize, inlineSize, lineMode);
+      const inlineScale = natural.width > 0 ? inlineSize / natural.width : maxScale;
+      const blockScale = natural.height > 0 ? blockSize / natural.height : maxScale;
+
+      if (fitMode === 'width') {
+        scaleInline = scaleBlock = clamp(inlineScale);
+      } else if (fitMode === 'height') {
+        scaleInline = scaleBlock = clamp(blockScale);
+      } else if (preserveAspectRatio) {
+        scaleInline = scaleBlock = clamp(Math.min(inlineScale, blockScale));
+      } else {
+        scaleInline = clamp(inlineScale);
+        scaleBlock = clamp(blockScale);
+      }
+    } else {
+      // A larger scale wraps into more, shorter lines, so the scaled box only grows with it.
+      const measureAt = (scale: number) => measurer.measure(text, font, baseFontSize, inlineSize / scale, lineMode);
+      const fitsAt = (scale: number) => {
+        const { width, height } = measureAt(scale);
+        // Lines span the container exactly, give or take sub-pixel rounding.
+        return sizeFits({ width: width * scale - 0.5, height: height * scale - 0.5 }, inlineSize, blockSize, fitMode);
+      };
+
+      // Half a pixel of effective font size, like the default search resolution.
+      const precision = 0.5 / baseFontSize;
+      let low = minScale;
+      let high = maxScale;
+      if (fitsAt(maxScale)) {
+        low = maxScale;
+      }
+      for (let iterations = 0; iterations < MAX_ITERATIONS && high - low > precision; iterations++) {
+        const mid = (low + high) / 2;
+        if (fitsAt(mid)) {
+          low = mid;
+        } else {
+          high = mid;
+        }
+      }
+
+      natural = measureAt(low);
+      wrapSize = inlineSize / low;
+      scaleInline = low;
+      // Without preserveAspectRatio the wrapped block is stretched to the container's block size.
+      scaleBlock = fitMode === 'both' && !preserveAspectRatio && natural.height > 0 ? clamp(blockSize / natural.height) : low;
+    }
+
+    const contentInlineSize = natural.width * scaleInline;
+    const contentBlockSize = natural.height * scaleBlock;
+
+    const result: FitResult = {
+      fontSize: baseFontSize * Math.min(scaleInline, scaleBlock),
+      contentWidth: vertical ? contentBlockSize : contentInlineSize,
+      contentHeight: vertical ? contentInlineSize : contentBlockSize,
+      availableWidth: containerWidth,
+      availableHeight: containerHeight,
+      clampedToMin: Math.min(scaleInline, scaleBlock) <= minScale,
+      clampedToMax: Math.max(scaleInline, scaleBlock) >= maxScale,
+      // Allow for sub-pixel rounding in the scaled box.
+      overflowing: !sizeFits(
+        { width: contentInlineSize - 0.5, height: contentBlockSize - 0.5 }, inlineSize, blockSize, fitMode
+      ),
+      lines: natural.lines,
+      scale: vertical ? { x: scaleBlock, y: scaleInline } : { x: scaleInline, y: scaleBlock },
+    };
+
+    if (wrapSize !== undefined) {
+      result.wrapSize = wrapSize;
+    }
+
+    return result;
   } finally {
-    clone.parentNode?.removeChild(clone);
+    measurer.release?.();
   }
 };